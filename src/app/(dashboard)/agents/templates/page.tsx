@@ -0,0 +1,18 @@
+import { auth } from "@/lib/auth"
+import { AgentTemplatesView } from "@/modules/agents/ui/views/agent-templates-view"
+import { headers } from "next/headers"
+import { redirect } from "next/navigation"
+
+const Page = async () => {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    })
+
+    if(!session){
+        redirect("/sign-in")
+    }
+
+    return <AgentTemplatesView />
+}
+
+export default Page
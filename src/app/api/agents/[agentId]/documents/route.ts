@@ -0,0 +1,98 @@
+import 'server-only'
+
+import { and, eq } from 'drizzle-orm'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { db } from '@/db'
+import { agentDocuments, agents } from '@/db/schema'
+import { auth } from '@/lib/auth'
+import {
+  MAX_DOCUMENT_CHARACTERS,
+  MAX_DOCUMENT_SIZE_BYTES,
+} from '@/modules/knowledge/constants'
+import {
+  extractFileText,
+  getDocumentType,
+  queueDocumentIngest,
+} from '@/modules/knowledge/server/ingest'
+
+/**
+ * Upload a PDF, markdown or text file to an agent's knowledge base
+ * POST /api/agents/[agentId]/documents (multipart form with a `file` field)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  const session = await auth.api.getSession({ headers: req.headers })
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { agentId } = await params
+
+  const [agent] = await db
+    .select({ id: agents.id })
+    .from(agents)
+    .where(and(eq(agents.id, agentId), eq(agents.userId, session.user.id)))
+
+  if (!agent) {
+    return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+  }
+
+  const formData = await req.formData().catch(() => null)
+  const file = formData?.get('file')
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'File is required' }, { status: 400 })
+  }
+
+  if (file.size > MAX_DOCUMENT_SIZE_BYTES) {
+    return NextResponse.json(
+      { error: 'File is larger than 10 MB' },
+      { status: 413 }
+    )
+  }
+
+  const type = getDocumentType(file.name)
+  if (!type) {
+    return NextResponse.json(
+      { error: 'Only PDF, markdown and text files are supported' },
+      { status: 400 }
+    )
+  }
+
+  let content: string
+  try {
+    content = await extractFileText(file, type)
+  } catch (error) {
+    console.error(`[Knowledge] Failed to read ${file.name}:`, error)
+    return NextResponse.json(
+      { error: 'Could not read the file' },
+      { status: 400 }
+    )
+  }
+
+  if (!content) {
+    return NextResponse.json(
+      { error: 'No text found in the file' },
+      { status: 400 }
+    )
+  }
+
+  if (content.length > MAX_DOCUMENT_CHARACTERS) {
+    return NextResponse.json(
+      { error: 'Document is too long' },
+      { status: 400 }
+    )
+  }
+
+  const [document] = await db
+    .insert(agentDocuments)
+    .values({ agentId, name: file.name, type, content })
+    .returning({ id: agentDocuments.id, name: agentDocuments.name })
+
+  await queueDocumentIngest(document.id)
+
+  return NextResponse.json(document, { status: 201 })
+}
@@ -0,0 +1,43 @@
+import 'server-only'
+
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { AUDIO_FORMATS } from '@/lib/text-to-speech'
+import { LocalStorage } from '@/lib/storage/local'
+
+const CONTENT_TYPES = Object.fromEntries(
+  Object.values(AUDIO_FORMATS).map(({ extension, mimeType }) => [
+    `.${extension}`,
+    mimeType,
+  ])
+)
+
+/**
+ * Serves agent audio written by the local-filesystem storage backend
+ * GET /api/audio/voice_agent/[file]
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  if (process.env.AUDIO_STORAGE !== 'local') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const { key } = await params
+  const objectKey = key.join('/')
+
+  const buffer = await new LocalStorage().read(objectKey)
+  if (!buffer) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  return new NextResponse(new Uint8Array(buffer), {
+    headers: {
+      'Content-Type':
+        CONTENT_TYPES[path.extname(objectKey)] || 'application/octet-stream',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  })
+}
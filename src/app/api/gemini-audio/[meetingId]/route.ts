@@ -19,7 +19,7 @@ export async function GET(
     }
 
     // Get latest audio response from Gemini voice service
-    const audioResponses = geminiVoiceService.getAudioResponses(meetingId)
+    const audioResponses = await geminiVoiceService.getAudioResponses(meetingId)
 
     if (audioResponses.length === 0) {
       return NextResponse.json({ audioUrl: null, text: null })
@@ -0,0 +1,113 @@
+import 'server-only'
+
+import { NextRequest, NextResponse } from 'next/server'
+import { geminiVoiceService } from '@/lib/gemini-voice'
+
+export const dynamic = 'force-dynamic'
+
+const POLL_INTERVAL_MS = 1000
+const HEARTBEAT_INTERVAL_MS = 15000
+
+/**
+ * Server-Sent Events stream of every audio response for a meeting
+ * GET /api/gemini-audio/[meetingId]/stream
+ *
+ * Resumes after the `Last-Event-ID` header (sent by EventSource on reconnect)
+ * or the `lastEventId` query parameter. Fresh connections start at the tail so
+ * rejoining a call does not replay earlier answers.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  const { meetingId } = await params
+
+  if (!meetingId) {
+    return NextResponse.json({ error: 'Missing meetingId' }, { status: 400 })
+  }
+
+  const resumeFrom =
+    req.headers.get('last-event-id') ||
+    req.nextUrl.searchParams.get('lastEventId')
+  let lastEventId = Number(resumeFrom) || 0
+
+  if (!resumeFrom) {
+    const existing = await geminiVoiceService.getAudioResponses(meetingId)
+    lastEventId = existing.at(-1)?.id ?? 0
+  }
+
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      let flushing = false
+      let pending = false
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+
+      const flush = async () => {
+        // Coalesce wake-ups that arrive while a query is already in flight
+        if (flushing) {
+          pending = true
+          return
+        }
+        flushing = true
+        try {
+          do {
+            pending = false
+            const responses = await geminiVoiceService.getAudioResponses(
+              meetingId,
+              lastEventId
+            )
+            for (const response of responses) {
+              lastEventId = response.id
+              send(
+                `id: ${response.id}\nevent: audio\ndata: ${JSON.stringify({
+                  text: response.text,
+                  audioUrl: response.audioUrl || null,
+                  timestamp: response.timestamp.toISOString(),
+                })}\n\n`
+              )
+            }
+          } while (pending && !closed)
+        } catch (error) {
+          console.error('[Gemini Audio Stream] Error:', error)
+        } finally {
+          flushing = false
+        }
+      }
+
+      const unsubscribe = geminiVoiceService.onAudioResponse(meetingId, flush)
+      const pollInterval = setInterval(flush, POLL_INTERVAL_MS)
+      const heartbeatInterval = setInterval(
+        () => send(': heartbeat\n\n'),
+        HEARTBEAT_INTERVAL_MS
+      )
+
+      req.signal.addEventListener('abort', () => {
+        closed = true
+        unsubscribe()
+        clearInterval(pollInterval)
+        clearInterval(heartbeatInterval)
+        try {
+          controller.close()
+        } catch {}
+      })
+
+      send(`retry: ${POLL_INTERVAL_MS}\n\n`)
+      void flush()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -1,10 +1,22 @@
 import { serve } from 'inngest/next'
 import { inngest } from '../../../inngest/client'
-import { meetingsProcessing } from '../../../inngest/functions'
+import {
+  agentDocumentIngest,
+  audioStorageCleanup,
+  meetingReminderDelivery,
+  meetingsProcessing,
+  unhandledWebhookReport,
+  webhookEventProcessing,
+} from '../../../inngest/functions'
 
 export const { GET, POST, PUT } = serve({
   client: inngest,
   functions: [
     meetingsProcessing,
+    audioStorageCleanup,
+    webhookEventProcessing,
+    unhandledWebhookReport,
+    agentDocumentIngest,
+    meetingReminderDelivery,
   ],
 })
@@ -0,0 +1,68 @@
+import 'server-only'
+
+import { and, eq } from 'drizzle-orm'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { db } from '@/db'
+import { agents, meetings } from '@/db/schema'
+import { auth } from '@/lib/auth'
+import { createIcsEvent } from '@/lib/ics'
+
+/**
+ * Calendar invite (.ics) for a scheduled meeting
+ * GET /api/meetings/[meetingId]/invite
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  const session = await auth.api.getSession({ headers: req.headers })
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { meetingId } = await params
+
+  const [meeting] = await db
+    .select({
+      id: meetings.id,
+      name: meetings.name,
+      scheduledStartAt: meetings.scheduledStartAt,
+      scheduledDurationMinutes: meetings.scheduledDurationMinutes,
+      agentName: agents.name,
+    })
+    .from(meetings)
+    .innerJoin(agents, eq(meetings.agentId, agents.id))
+    .where(and(eq(meetings.id, meetingId), eq(meetings.userId, session.user.id)))
+
+  if (!meeting) {
+    return NextResponse.json({ error: 'Meeting not found' }, { status: 404 })
+  }
+
+  if (!meeting.scheduledStartAt) {
+    return NextResponse.json(
+      { error: 'Meeting is not scheduled' },
+      { status: 400 }
+    )
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin
+  const callUrl = `${appUrl}/call/${meeting.id}`
+
+  const ics = createIcsEvent({
+    uid: `${meeting.id}@hello.ai`,
+    title: meeting.name,
+    description: `Meeting with ${meeting.agentName}\nJoin: ${callUrl}`,
+    url: callUrl,
+    start: meeting.scheduledStartAt,
+    durationMinutes: meeting.scheduledDurationMinutes,
+  })
+
+  return new NextResponse(ics, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="meeting-${meeting.id}.ics"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -3,15 +3,43 @@ import { getQueryClient, trpc } from "@/trpc/server"
 import { dehydrate, HydrationBoundary } from "@tanstack/react-query"
 import { headers } from "next/headers"
 import { redirect } from "next/navigation"
+import { Suspense } from "react"
+import { ErrorBoundary } from "react-error-boundary"
 import { CallView } from "../ui/views/call-view"
+import { GuestCallView, GuestCallViewError, GuestCallViewLoading } from "../ui/views/guest-call-view"
 
 interface Props {
     params: Promise<{
         meetingId: string
     }>
+    searchParams: Promise<{
+        token?: string
+    }>
 }
 
-const Page = async ({ params } : Props) => {
+const Page = async ({ params, searchParams } : Props) => {
+    const {meetingId} = await params
+    const {token} = await searchParams
+
+    const queryClient = getQueryClient()
+
+    // Invited participants join through a signed link and do not need an account
+    if(token){
+        void queryClient.prefetchQuery(
+            trpc.participants.getGuestCall.queryOptions({ meetingId, token }),
+        )
+
+        return (
+            <HydrationBoundary state={dehydrate(queryClient)}>
+                <Suspense fallback={<GuestCallViewLoading />}>
+                <ErrorBoundary fallback={<GuestCallViewError />}>
+                    <GuestCallView meetingId={meetingId} token={token} />
+                </ErrorBoundary>
+                </Suspense>
+            </HydrationBoundary>
+        )
+    }
+
     const session = await auth.api.getSession({
         headers: await headers(),
     })
@@ -20,9 +48,6 @@ const Page = async ({ params } : Props) => {
         redirect("/sign-in")
     }
 
-    const {meetingId} = await params
-
-    const queryClient = getQueryClient()
     void queryClient.prefetchQuery(
         trpc.meetings.getOne.queryOptions({ id: meetingId }),
     )
@@ -33,4 +58,4 @@ const Page = async ({ params } : Props) => {
         </HydrationBoundary>
     )
 }
-export default Page
\ No newline at end of file
+export default Page
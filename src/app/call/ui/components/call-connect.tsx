@@ -2,7 +2,6 @@
 
 import { LoaderIcon } from 'lucide-react'
 import { useEffect, useState } from 'react'
-import { useMutation } from '@tanstack/react-query'
 import {
   Call,
   CallingState,
@@ -11,8 +10,6 @@ import {
   StreamVideoClient,
 } from '@stream-io/video-react-sdk'
 
-import { useTRPC } from '@/trpc/client'
-
 import '@stream-io/video-react-sdk'
 import { CallUI } from './call-ui'
 
@@ -22,6 +19,9 @@ interface Props {
   userId: string
   userName: string
   userImage: string
+  tokenProvider: () => Promise<string>
+  // Only the host ends the call for everyone; guests just leave it
+  isHost: boolean
 }
 
 export const CallConnect = ({
@@ -30,12 +30,9 @@ export const CallConnect = ({
   userId,
   userName,
   userImage,
+  tokenProvider,
+  isHost,
 }: Props) => {
-  const trpc = useTRPC()
-  const { mutateAsync: generateToken } = useMutation(
-    trpc.meetings.generateToken.mutationOptions()
-  )
-
   const [client, setClient] = useState<StreamVideoClient>()
   useEffect(() => {
     const _client = new StreamVideoClient({
@@ -45,7 +42,7 @@ export const CallConnect = ({
         name: userName,
         image: userImage,
       },
-      tokenProvider: generateToken,
+      tokenProvider,
     })
 
     setClient(_client)
@@ -54,7 +51,7 @@ export const CallConnect = ({
       _client.disconnectUser()
       setClient(undefined)
     }
-  }, [userId, userName, userImage, generateToken])
+  }, [userId, userName, userImage, tokenProvider])
 
   const [call, setCall] = useState<Call>()
   useEffect(() => {
@@ -68,11 +65,11 @@ export const CallConnect = ({
     return () => {
       if (_call.state.callingState !== CallingState.LEFT) {
         _call.leave()
-        _call.endCall()
+        if (isHost) _call.endCall()
         setCall(undefined)
       }
     }
-  }, [client, meetingId])
+  }, [client, meetingId, isHost])
 
   if (!client || !call) {
     return (
@@ -85,7 +82,7 @@ export const CallConnect = ({
   return (
     <StreamVideo client={client}>
       <StreamCall call={call}>
-        <CallUI meetingName={meetingName} meetingId={meetingId} />
+        <CallUI meetingName={meetingName} meetingId={meetingId} isHost={isHost} />
       </StreamCall>
     </StreamVideo>
   )
@@ -1,19 +1,27 @@
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 
-export const CallEnded = () => {
+interface Props {
+    isHost: boolean
+}
+
+export const CallEnded = ({ isHost }: Props) => {
  
     return (
       <div className="flex flex-col items-center justify-center h-full bg-radial from-sidebar-accent to-sidebar">
         <div className="py-4 px-8 flex flex-1 items-center justify-center">
           <div className="flex flex-col items-center justify-center gap-y-6 bg-background rounded-lg p-10 shadow-sm">
             <div className="flex flex-col gap-y-2 text-center">
-            <h6 className="text-lg font-medium"> You have ended the call</h6>
-            <p className="text-sm">Summary will appear in a few minutes</p>
+            <h6 className="text-lg font-medium">{isHost ? " You have ended the call" : "You have left the call"}</h6>
+            <p className="text-sm">
+              {isHost ? "Summary will appear in a few minutes" : "Thanks for joining. You can close this tab"}
+            </p>
             </div>
-            <Button asChild>
-                <Link href="/meetings" >Back to meetings</Link>
-            </Button>
+            {isHost && (
+              <Button asChild>
+                  <Link href="/meetings" >Back to meetings</Link>
+              </Button>
+            )}
            
           </div>
         </div>
@@ -6,31 +6,33 @@ import {
     ToggleAudioPreviewButton,
     ToggleVideoPreviewButton,
     useCallStateHooks,
+    useConnectedUser,
     VideoPreview
 
 } from "@stream-io/video-react-sdk"
 
 import { Button } from "@/components/ui/button"
-import { authClient } from "@/lib/auth-client"
 import { generatedAvatarUri } from "@/lib/avatar"
 
 import "@stream-io/video-react-sdk/dist/css/styles.css"
 
 interface Props {
     onJoin: () => void
+    isHost: boolean
 }
 
 const DisabledVideoPreview = () => {
-    const { data } = authClient.useSession()
+    // Guests have no app session, so read the identity the Stream client connected with
+    const user = useConnectedUser()
 
     return (
         <DefaultVideoPlaceholder
             participant={
                 {
-                    name: data?.user.name ?? "",
-                    image: data?.user.image ?? 
+                    name: user?.name ?? "",
+                    image: user?.image ?? 
                     generatedAvatarUri({
-                        seed: data?.user.name ?? "",
+                        seed: user?.name ?? "",
                         variant: "initials",
                     }),
                 } as StreamVideoParticipant
@@ -48,7 +50,7 @@ const AllowBrowserPermissions = () => {
 }
 
 
-export const CallLobby = ({ onJoin } : Props) => {
+export const CallLobby = ({ onJoin, isHost } : Props) => {
     const {useCameraState, useMicrophoneState } = useCallStateHooks()
 
     const {hasBrowserPermission: hasMicPermission } = useMicrophoneState()
@@ -77,12 +79,14 @@ export const CallLobby = ({ onJoin } : Props) => {
                 <ToggleVideoPreviewButton caption={undefined} Menu={undefined} menuPlacement={undefined} onMenuToggle={undefined}/>
             </div>
             <div className="flex gap-x-2 justify-between w-full">
-                <Button asChild variant="ghost">
-                    <Link href="/meetings">
-                        Cancel
-                    </Link>
-                </Button>
-                <Button onClick={onJoin}>
+                {isHost && (
+                    <Button asChild variant="ghost">
+                        <Link href="/meetings">
+                            Cancel
+                        </Link>
+                    </Button>
+                )}
+                <Button onClick={onJoin} className={isHost ? undefined : "w-full"}>
                     <LogInIcon/>
                     Join Call
                 </Button>
@@ -1,9 +1,11 @@
 "use client"
 
 import { Loader2Icon } from "lucide-react"
+import { useMutation } from "@tanstack/react-query"
 
 import { authClient } from "@/lib/auth-client"
 import { generatedAvatarUri } from "@/lib/avatar"
+import { useTRPC } from "@/trpc/client"
 import { CallConnect } from "./call-connect"
 
 interface Props {
@@ -12,7 +14,11 @@ interface Props {
 }
 
 export const CallProvider = ({ meetingId, meetingName }: Props) => {
+    const trpc = useTRPC()
     const {data, isPending } = authClient.useSession()
+    const { mutateAsync: generateToken } = useMutation(
+        trpc.meetings.generateToken.mutationOptions()
+    )
 
     if(!data || isPending) {
         return (
@@ -32,7 +38,8 @@ export const CallProvider = ({ meetingId, meetingName }: Props) => {
                 data.user.image ??
                 generatedAvatarUri({seed: data.user.name, variant: "initials"})
             }
-        
+            tokenProvider={generateToken}
+            isHost
         />
     )
 
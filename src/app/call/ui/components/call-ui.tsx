@@ -7,9 +7,10 @@ import { CallEnded } from "./call-ended"
 interface Props {
   meetingName: string
   meetingId: string
+  isHost: boolean
 }
 
-export const CallUI = ({ meetingName, meetingId }: Props) => {
+export const CallUI = ({ meetingName, meetingId, isHost }: Props) => {
   const call = useCall()
   const [show, setShow] = useState<'lobby' | 'call' | 'ended'>('lobby')
 
@@ -24,13 +25,17 @@ export const CallUI = ({ meetingName, meetingId }: Props) => {
   const handleLeave = () => {
     if (!call) return
 
-    call.endCall()
+    if (isHost) {
+      call.endCall()
+    } else {
+      call.leave()
+    }
     setShow('ended')
   }
 
   return (
     <StreamTheme className="h-full">
-      {show === 'lobby' && <CallLobby onJoin={handleJoin} />}
+      {show === 'lobby' && <CallLobby onJoin={handleJoin} isHost={isHost} />}
       {show === 'call' && (
         <CallActive
           onLeave={handleLeave}
@@ -38,7 +43,7 @@ export const CallUI = ({ meetingName, meetingId }: Props) => {
           meetingId={meetingId}
         />
       )}
-      {show === 'ended' && <CallEnded />}
+      {show === 'ended' && <CallEnded isHost={isHost} />}
     </StreamTheme>
   )
 }
@@ -6,10 +6,19 @@ interface Props {
   meetingId: string
 }
 
+interface AudioResponseEvent {
+  text: string
+  audioUrl: string | null
+  timestamp: string
+}
+
+const RECONNECT_DELAY_MS = 2000
+
 export const GeminiAudioPlayer = ({ meetingId }: Props) => {
-  const audioRef = useRef<HTMLAudioElement | null>(null) 
-  const lastPlayedUrlRef = useRef<string | null>(null)
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const queueRef = useRef<string[]>([])
   const isPlayingRef = useRef<boolean>(false)
+  const lastEventIdRef = useRef<string | null>(null)
 
   useEffect(() => {
     if (!meetingId) return
@@ -17,83 +26,108 @@ export const GeminiAudioPlayer = ({ meetingId }: Props) => {
     if (!audioRef.current) {
       const el = new Audio()
       el.preload = 'auto'
-      el.autoplay = true
       el.crossOrigin = 'anonymous'
       el.style.display = 'none'
       document.body.appendChild(el)
-      el.addEventListener('playing', () => (isPlayingRef.current = true))
-      el.addEventListener('ended', () => (isPlayingRef.current = false))
-      el.addEventListener('pause', () => (isPlayingRef.current = false))
       audioRef.current = el
     }
 
-    const audio = audioRef.current 
+    const audio = audioRef.current
+    // Detaches the listeners of the clip that is currently playing
+    let detachClip: (() => void) | null = null
+
+    const playNext = async () => {
+      if (isPlayingRef.current) return
+
+      const nextUrl = queueRef.current.shift()
+      if (!nextUrl) return
+
+      isPlayingRef.current = true
 
-    const pollInterval = setInterval(async () => {
+      // A failed clip can report through both the rejected play() and the
+      // media error event; only the first report moves the queue on
+      let advanced = false
+      const detach = () => {
+        audio.removeEventListener('ended', advance)
+        audio.removeEventListener('error', advance)
+      }
+      const advance = () => {
+        if (advanced) return
+        advanced = true
+        detach()
+        isPlayingRef.current = false
+        void playNext()
+      }
+      audio.addEventListener('ended', advance)
+      audio.addEventListener('error', advance)
+      detachClip = detach
+
+      console.log(`[Gemini Audio Player] Playing queued audio: ${nextUrl}`)
+      audio.src = nextUrl
       try {
-        const response = await fetch(`/api/gemini-audio/${meetingId}`)
+        audio.load()
+        await audio.play()
+      } catch (error) {
+        console.error(
+          '[Gemini Audio Player] Error playing audio (autoplay may be blocked):',
+          error
+        )
+        advance()
+      }
+    }
 
-        if (!response.ok) return
+    let source: EventSource | null = null
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
 
-        const data = await response.json()
+    const connect = () => {
+      const url = new URL(
+        `/api/gemini-audio/${meetingId}/stream`,
+        window.location.origin
+      )
+      if (lastEventIdRef.current) {
+        url.searchParams.set('lastEventId', lastEventIdRef.current)
+      }
+
+      source = new EventSource(url)
+
+      source.addEventListener('audio', (event) => {
+        const message = event as MessageEvent<string>
+        lastEventIdRef.current = message.lastEventId
 
-        if (data.text && !data.audioUrl) {
+        const data = JSON.parse(message.data) as AudioResponseEvent
+        if (!data.audioUrl) {
           console.log(
             '[Gemini Audio Player] Text response (no audio):',
             data.text
           )
-        } 
-
-        if (data.audioUrl && data.audioUrl !== lastPlayedUrlRef.current) {
-          const srcUrl = `${data.audioUrl}?t=${Date.now()}`
-          console.log(`[Gemini Audio Player] Playing new audio: ${srcUrl}`) 
-          lastPlayedUrlRef.current = data.audioUrl
-
-          if (audio.src !== srcUrl) {
-            if (isPlayingRef.current) {
-              console.log(
-                '[Gemini Audio Player] Currently playing; delaying swap'
-              )
-              const onEnded = async () => {
-                audio.removeEventListener('ended', onEnded)
-                audio.src = srcUrl
-                try {
-                  audio.load()
-                  await audio.play()
-                } catch (error) {
-                  console.error(
-                    '[Gemini Audio Player] Error playing audio after end:',
-                    error
-                  )
-                }
-              }
-              audio.addEventListener('ended', onEnded)
-            } else {
-              audio.src = srcUrl
-              try {
-                audio.load()
-                await audio.play()
-              } catch (error) {
-                console.error(
-                  '[Gemini Audio Player] Error playing audio (autoplay may be blocked):',
-                  error
-                )
-              }
-            }
-          }
+          return
         }
-      } catch (error) {
-        console.error('[Gemini Audio Player] Error polling:', error)
+
+        queueRef.current.push(data.audioUrl)
+        void playNext()
+      })
+
+      source.onerror = () => {
+        // EventSource retries transient drops itself; only a closed stream needs us
+        if (source?.readyState !== EventSource.CLOSED) return
+
+        console.warn('[Gemini Audio Player] Stream closed; reconnecting...')
+        source.close()
+        reconnectTimeout = setTimeout(connect, RECONNECT_DELAY_MS)
       }
-    }, 1500) 
+    }
+
+    connect()
 
     return () => {
-      clearInterval(pollInterval)
-      if (audioRef.current) {
-        audioRef.current.pause()
-        audioRef.current.src = ''
-      }
-    } 
+      source?.close()
+      if (reconnectTimeout) clearTimeout(reconnectTimeout)
+      detachClip?.()
+      queueRef.current = []
+      isPlayingRef.current = false
+      audio.pause()
+      audio.src = ''
+    }
   }, [meetingId])
 
   return null
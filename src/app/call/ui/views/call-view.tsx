@@ -26,6 +26,16 @@ export const CallView = ({
         )
     }
 
+    if(data.status === "cancelled"){
+        return (
+            <div className="flex h-screen items-center justify-center">
+                <ErrorState
+                    title="Meeting was cancelled"
+                    description="You can no longer join this meeting"
+                />
+            </div>
+        )
+    }
 
     return (
         <CallProvider meetingId={meetingId} meetingName={data.name} />
@@ -0,0 +1,85 @@
+"use client"
+
+import { useCallback } from "react"
+import { LoaderIcon } from "lucide-react"
+import { useMutation, useSuspenseQuery } from "@tanstack/react-query"
+
+import { ErrorState } from "@/components/error-state"
+import { useTRPC } from "@/trpc/client"
+import { CallConnect } from "../components/call-connect"
+
+interface Props {
+    meetingId: string
+    token: string
+}
+
+export const GuestCallView = ({
+    meetingId,
+    token,
+}: Props) => {
+    const trpc = useTRPC()
+    const { data } = useSuspenseQuery(
+        trpc.participants.getGuestCall.queryOptions({ meetingId, token })
+    )
+    const { mutateAsync: generateGuestToken } = useMutation(
+        trpc.participants.generateGuestToken.mutationOptions()
+    )
+    // Stable identity so the Stream client is not recreated on every render
+    const tokenProvider = useCallback(
+        () => generateGuestToken({ meetingId, token }),
+        [generateGuestToken, meetingId, token]
+    )
+
+    if(data.status === "completed" || data.status === "processing"){
+        return (
+            <div className="flex h-screen items-center justify-center">
+                <ErrorState
+                    title="Meeting has ended"
+                    description="You can no longer join this meeting"
+                />
+            </div>
+        )
+    }
+
+    if(data.status === "cancelled"){
+        return (
+            <div className="flex h-screen items-center justify-center">
+                <ErrorState
+                    title="Meeting was cancelled"
+                    description="You can no longer join this meeting"
+                />
+            </div>
+        )
+    }
+
+    return (
+        <CallConnect
+            meetingId={meetingId}
+            meetingName={data.meetingName}
+            userId={data.participant.id}
+            userName={data.participant.name}
+            userImage={data.participant.image}
+            tokenProvider={tokenProvider}
+            isHost={false}
+        />
+    )
+}
+
+export const GuestCallViewLoading = () => {
+    return (
+        <div className="flex h-screen items-center justify-center bg-radial from-sidebar-accent to-sidebar">
+            <LoaderIcon className="size-6 animate-spin text-white" />
+        </div>
+    )
+}
+
+export const GuestCallViewError = () => {
+    return (
+        <div className="flex h-screen items-center justify-center">
+            <ErrorState
+                title="Invite link is not valid"
+                description="It may have expired or been revoked. Ask the host for a new link"
+            />
+        </div>
+    )
+}
@@ -4,13 +4,17 @@ import {
   ColumnDef,
   flexRender,
   getCoreRowModel,
+  SortingState,
   useReactTable,
 } from '@tanstack/react-table'
+import { ArrowDownIcon, ArrowUpDownIcon, ArrowUpIcon } from 'lucide-react'
 
 import {
   Table,
   TableBody,
   TableCell,
+  TableHead,
+  TableHeader,
   TableRow,
 } from '@/components/ui/table'
 
@@ -18,23 +22,63 @@ interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[]
   data: TData[]
   onRowClick?: (row: TData) => void
+  // Sorting happens on the server; passing these renders clickable column headers
+  sorting?: SortingState
+  onSortingChange?: (columnId: string) => void
 }
 
 export function DataTable<TData, TValue>({
   columns,
   data,
   onRowClick,
-  
+  sorting,
+  onSortingChange,
 }: DataTableProps<TData, TValue>) {
   const table = useReactTable({
     data,
     columns,
     getCoreRowModel: getCoreRowModel(),
+    manualSorting: true,
+    enableSorting: !!onSortingChange,
+    state: {
+      sorting: sorting ?? [],
+    },
   })
 
   return (
     <div className="overflow-hidden rounded-lg border bg-background">
       <Table>
+        {onSortingChange && (
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => {
+                  const isSorted = header.column.getIsSorted()
+                  const SortIcon = isSorted === 'asc'
+                    ? ArrowUpIcon
+                    : isSorted === 'desc' ? ArrowDownIcon : ArrowUpDownIcon
+
+                  return (
+                    <TableHead key={header.id} className='px-4'>
+                      {header.isPlaceholder ? null : header.column.getCanSort() ? (
+                        <button
+                          type='button'
+                          className='flex items-center gap-x-1 hover:text-foreground'
+                          onClick={() => onSortingChange(header.column.id)}
+                        >
+                          {flexRender(header.column.columnDef.header, header.getContext())}
+                          <SortIcon className={isSorted ? 'size-3.5' : 'size-3.5 text-muted-foreground/50'} />
+                        </button>
+                      ) : (
+                        flexRender(header.column.columnDef.header, header.getContext())
+                      )}
+                    </TableHead>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableHeader>
+        )}
         <TableBody>
           {table.getRowModel().rows?.length ? (
             table.getRowModel().rows.map((row) => (
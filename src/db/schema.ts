@@ -1,6 +1,7 @@
 // These schemas are taken from better-auth (specifically using npx @better-auth/cli@1.2.8 generate)
 
-import { pgTable, text, timestamp, boolean, pgEnum } from 'drizzle-orm/pg-core'
+import { pgTable, text, timestamp, boolean, pgEnum, serial, real, jsonb, integer, uniqueIndex, index, vector, AnyPgColumn } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
 
 import { nanoid } from 'nanoid'
 
@@ -66,6 +67,26 @@ export const verification = pgTable('verification', {
 
 // For Agents
 
+export const audioEncoding = pgEnum("audio_encoding", [
+  "LINEAR16",
+  "MP3",
+  "OGG_OPUS",
+]);
+
+export const llmProvider = pgEnum("llm_provider", [
+  "gemini",
+  "openai",
+  "openai_compatible",
+]);
+
+export const agentTool = pgEnum("agent_tool", [
+  "create_follow_up_meeting",
+  "lookup_meeting_summary",
+  "take_note",
+  "set_reminder",
+  "call_http_endpoint",
+]);
+
 export const agents = pgTable("agents", {
 
   id: text("id")
@@ -76,10 +97,77 @@ export const agents = pgTable("agents", {
     .notNull()
     .references(() => user.id, {onDelete: "cascade"}),
     instructions: text("instructions").notNull(),
+    languageCode: text("language_code").notNull().default("en-US"),
+    voiceName: text("voice_name").notNull().default("en-US-Neural2-F"),
+    speakingRate: real("speaking_rate").notNull().default(1),
+    pitch: real("pitch").notNull().default(0),
+    audioEncoding: audioEncoding("audio_encoding").notNull().default("LINEAR16"),
+    llmProvider: llmProvider("llm_provider").notNull().default("gemini"),
+    llmModel: text("llm_model").notNull().default("gemini-2.0-flash-exp"),
+    enabledTools: agentTool("enabled_tools").array().notNull().default(sql`'{}'`),
+    // Target of the call_http_endpoint tool
+    httpToolUrl: text("http_tool_url"),
+    httpToolDescription: text("http_tool_description"),
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
     
 })
+
+// For Agent knowledge bases (requires the pgvector extension: CREATE EXTENSION vector)
+
+export const agentDocumentType = pgEnum("agent_document_type", [
+  "pdf",
+  "markdown",
+  "text",
+  "url",
+]);
+
+export const agentDocumentStatus = pgEnum("agent_document_status", [
+  "processing",
+  "ready",
+  "failed",
+]);
+
+export const agentDocuments = pgTable("agent_documents", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  agentId: text("agent_id")
+    .notNull()
+    .references(() => agents.id, {onDelete: "cascade"}),
+  name: text("name").notNull(),
+  type: agentDocumentType("type").notNull(),
+  sourceUrl: text("source_url"),
+  // Extracted plain text; null for URLs until they have been fetched
+  content: text("content"),
+  status: agentDocumentStatus("status").notNull().default("processing"),
+  error: text("error"),
+  chunkCount: integer("chunk_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+})
+
+export const agentDocumentChunks = pgTable("agent_document_chunks", {
+
+  id: serial("id").primaryKey(),
+  documentId: text("document_id")
+    .notNull()
+    .references(() => agentDocuments.id, {onDelete: "cascade"}),
+  // Denormalized so retrieval filters by agent without a join
+  agentId: text("agent_id")
+    .notNull()
+    .references(() => agents.id, {onDelete: "cascade"}),
+  position: integer("position").notNull(),
+  content: text("content").notNull(),
+  // text-embedding-004 output size
+  embedding: vector("embedding", { dimensions: 768 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("agent_document_chunks_agent_idx").on(table.agentId),
+  index("agent_document_chunks_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+])
+
 // For Meetings
 
 export const meetingStatus = pgEnum("meeting_status", [
@@ -90,6 +178,20 @@ export const meetingStatus = pgEnum("meeting_status", [
   "cancelled"
 ]);
 
+// How the agents in a multi-agent meeting decide who answers a turn
+export const agentTurnPolicy = pgEnum("agent_turn_policy", [
+  "addressed",
+  "round_robin",
+  "moderator",
+]);
+
+// Full-text search documents. Queries must use the same expressions to hit the GIN indexes
+export const meetingSearchDocument = (table: { name: AnyPgColumn, summary: AnyPgColumn }) =>
+  sql`(setweight(to_tsvector('english', coalesce(${table.name}, '')), 'A') || setweight(to_tsvector('english', coalesce(${table.summary}, '')), 'B'))`
+
+export const transcriptSearchDocument = (table: { text: AnyPgColumn }) =>
+  sql`to_tsvector('english', ${table.text})`
+
 export const meetings = pgTable("meetings", {
 
   id: text("id")
@@ -99,10 +201,18 @@ export const meetings = pgTable("meetings", {
   userId: text("user_id")
     .notNull()
     .references(() => user.id, {onDelete: "cascade"}),
+  // The lead agent; further agents are listed in meeting_agents
   agentId: text("agent_id")
     .notNull()
     .references(() => agents.id, {onDelete: "cascade"}),
+    turnPolicy: agentTurnPolicy("turn_policy").notNull().default("addressed"),
     status: meetingStatus("status").notNull().default("upcoming"),
+    scheduledStartAt: timestamp("scheduled_start_at"),
+    scheduledDurationMinutes: integer("scheduled_duration_minutes").notNull().default(30),
+    timezone: text("timezone").notNull().default("UTC"),
+    cancelledAt: timestamp("cancelled_at"),
+    cancelledBy: text("cancelled_by").references(() => user.id, { onDelete: "set null" }),
+    cancellationReason: text("cancellation_reason"),
     startedAt: timestamp("started_at"),
     endedAt: timestamp("ended_at"),  
     transcriptUrl: text("transcript_url"),
@@ -111,5 +221,266 @@ export const meetings = pgTable("meetings", {
     createdAt: timestamp("created_at").notNull().defaultNow(),  
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
     
+}, (table) => [
+  index("meetings_search_idx").using("gin", meetingSearchDocument(table)),
+])
+
+export const meetingAgents = pgTable("meeting_agents", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => meetings.id, {onDelete: "cascade"}),
+  agentId: text("agent_id")
+    .notNull()
+    .references(() => agents.id, {onDelete: "cascade"}),
+  // Order after the lead agent, used for round-robin turns
+  position: integer("position").notNull(),
+}, (table) => [
+  uniqueIndex("meeting_agents_meeting_agent_idx").on(table.meetingId, table.agentId),
+])
+
+export const meetingStatusActor = pgEnum("meeting_status_actor", ["user", "system"])
+
+export const meetingStatusEvents = pgTable("meeting_status_events", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => meetings.id, { onDelete: "cascade" }),
+  // Null for the event recorded when the meeting is created
+  fromStatus: meetingStatus("from_status"),
+  toStatus: meetingStatus("to_status").notNull(),
+  actorType: meetingStatusActor("actor_type").notNull(),
+  actorId: text("actor_id").references(() => user.id, { onDelete: "set null" }),
+  cause: text("cause").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+})
+
+export const meetingParticipantStatus = pgEnum("meeting_participant_status", ["invited", "joined"])
+
+export const meetingParticipants = pgTable("meeting_participants", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => meetings.id, {onDelete: "cascade"}),
+  email: text("email").notNull(),
+  name: text("name").notNull(),
+  // Set when the invited email belongs to an existing account
+  userId: text("user_id").references(() => user.id, { onDelete: "set null" }),
+  status: meetingParticipantStatus("status").notNull().default("invited"),
+  invitedAt: timestamp("invited_at").notNull().defaultNow(),
+  joinedAt: timestamp("joined_at"),
+}, (table) => [
+  uniqueIndex("meeting_participants_meeting_email_idx").on(table.meetingId, table.email),
+])
+
+export const transcriptSegments = pgTable("transcript_segments", {
+
+  id: serial("id").primaryKey(),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => meetings.id, {onDelete: "cascade"}),
+  // Line number in Stream's transcript; with meetingId it makes re-deliveries idempotent
+  position: integer("position").notNull(),
+  speakerId: text("speaker_id").notNull(),
+  type: text("type").notNull(),
+  text: text("text").notNull(),
+  // Milliseconds from the start of the transcription, as Stream reports them
+  startTs: integer("start_ts").notNull(),
+  stopTs: integer("stop_ts").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("transcript_segments_meeting_position_idx").on(table.meetingId, table.position),
+  index("transcript_segments_search_idx").using("gin", transcriptSearchDocument(table)),
+])
+
+// For Voice Sessions
+
+export const voiceSessions = pgTable("voice_sessions", {
+
+  meetingId: text("meeting_id")
+    .primaryKey()
+    .references(() => meetings.id, {onDelete: "cascade"}),
+  // Lead agent first; every id here is ignored as a speaker
+  agentIds: text("agent_ids").array().notNull(),
+  turnPolicy: agentTurnPolicy("turn_policy").notNull().default("addressed"),
+  // Index into agentIds of the next round-robin speaker
+  nextAgentIndex: integer("next_agent_index").notNull().default(0),
+  isProcessing: boolean("is_processing").notNull().default(false),
+  // Set by whichever drain holds the processing lock; only it may refresh or release it
+  lockId: text("lock_id"),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+})
+
+export const conversationRole = pgEnum("conversation_role", [
+  "user",
+  "assistant",
+]);
+
+export const conversationTurns = pgTable("conversation_turns", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  // Monotonic across instances, so history order does not depend on clocks
+  sequence: serial("sequence").notNull(),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => voiceSessions.meetingId, {onDelete: "cascade"}),
+  role: conversationRole("role").notNull(),
+  // The agent that spoke an assistant turn
+  agentId: text("agent_id"),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+})
+
+export const voiceSessionInputs = pgTable("voice_session_inputs", {
+
+  id: serial("id").primaryKey(),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => voiceSessions.meetingId, {onDelete: "cascade"}),
+  speakerId: text("speaker_id").notNull(),
+  text: text("text").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+})
+
+export const voiceAudioSegments = pgTable("voice_audio_segments", {
+
+  // Doubles as the SSE event id for audio responses
+  id: serial("id").primaryKey(),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => voiceSessions.meetingId, {onDelete: "cascade"}),
+  text: text("text").notNull(),
+  audioUrl: text("audio_url"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+})
+
+// For Agent tool calls during meetings
+
+export const agentToolInvocationStatus = pgEnum("agent_tool_invocation_status", [
+  "succeeded",
+  "failed",
+]);
+
+// Audit log of every tool an agent called, kept with the meeting
+export const agentToolInvocations = pgTable("agent_tool_invocations", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => meetings.id, {onDelete: "cascade"}),
+  agentId: text("agent_id").references(() => agents.id, { onDelete: "set null" }),
+  tool: agentTool("tool").notNull(),
+  input: jsonb("input").notNull(),
+  output: jsonb("output"),
+  status: agentToolInvocationStatus("status").notNull(),
+  error: text("error"),
+  durationMs: integer("duration_ms").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("agent_tool_invocations_meeting_idx").on(table.meetingId),
+])
+
+export const meetingNotes = pgTable("meeting_notes", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => meetings.id, {onDelete: "cascade"}),
+  agentId: text("agent_id").references(() => agents.id, { onDelete: "set null" }),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 })
 
+export const meetingReminders = pgTable("meeting_reminders", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => meetings.id, {onDelete: "cascade"}),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, {onDelete: "cascade"}),
+  agentId: text("agent_id").references(() => agents.id, { onDelete: "set null" }),
+  message: text("message").notNull(),
+  remindAt: timestamp("remind_at").notNull(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+})
+
+// For Webhooks
+
+export const webhookEventStatus = pgEnum("webhook_event_status", [
+  "received",
+  "processing",
+  "processed",
+  "failed",
+  "unhandled",
+]);
+
+export const webhookEvents = pgTable("webhook_events", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  // Stream's delivery id when present, otherwise a hash of the signed body
+  eventId: text("event_id").notNull().unique(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: webhookEventStatus("status").notNull().default("received"),
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+})
+
+// For Ask AI chat on completed meetings
+
+export const meetingChatThreads = pgTable("meeting_chat_threads", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  meetingId: text("meeting_id")
+    .notNull()
+    .references(() => meetings.id, {onDelete: "cascade"}),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, {onDelete: "cascade"}),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+})
+
+export const meetingChatMessages = pgTable("meeting_chat_messages", {
+
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  sequence: serial("sequence").notNull(),
+  threadId: text("thread_id")
+    .notNull()
+    .references(() => meetingChatThreads.id, {onDelete: "cascade"}),
+  role: conversationRole("role").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+})
@@ -0,0 +1,12 @@
+import { useEffect, useState } from "react"
+
+export const useDebounce = <T>(value: T, delayMs: number) => {
+    const [debouncedValue, setDebouncedValue] = useState(value)
+
+    useEffect(() => {
+        const timeout = setTimeout(() => setDebouncedValue(value), delayMs)
+        return () => clearTimeout(timeout)
+    }, [value, delayMs])
+
+    return debouncedValue
+}
@@ -1,10 +1,31 @@
 import { db } from '@/db'
-import { agents, meetings, user } from '@/db/schema'
+import {
+  agentDocuments,
+  agents,
+  meetingReminders,
+  meetings,
+  user,
+} from '@/db/schema'
 import { inngest } from '@/inngest/client'
-import { StreamTranscriptItem } from '@/modules/meetings/types'
-import { eq, inArray } from 'drizzle-orm'
-import JSONL from 'jsonl-parse-stringify'
-import { GoogleGenerativeAI } from '@google/generative-ai'
+import { MeetingStatus } from '@/modules/meetings/types'
+import { transitionMeetingStatus } from '@/modules/meetings/server/status'
+import { getTranscriptWithSpeakers } from '@/modules/meetings/server/transcript'
+import { fetchUrlText, indexDocument } from '@/modules/knowledge/server/ingest'
+import { MAX_DOCUMENT_CHARACTERS } from '@/modules/knowledge/constants'
+import { DocumentStatus } from '@/modules/knowledge/types'
+import { and, eq, isNull } from 'drizzle-orm'
+import { getLLMProvider, LLMSettings } from '@/lib/llm'
+import { sendEmail } from '@/lib/email'
+import { formatInTimeZone } from '@/lib/timezone'
+import {
+  AUDIO_PREFIX,
+  getAudioRetentionDays,
+  getAudioStorage,
+} from '@/lib/storage'
+import {
+  getUnhandledWebhookEventCounts,
+  processWebhookEvent,
+} from '@/lib/stream-webhook'
 
 const SYSTEM_PROMPT = `
 You are an expert summarizer. You write readable, concise, simple content. You are given a transcript of a meeting and you need to summarize it.
@@ -28,27 +49,23 @@ Example:
 - Mention of integration with Z
 `.trim()
 
-async function summarizeWithGemini(transcriptText: string): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_GENAI_API_KEY
-
-  if (!apiKey) {
-    throw new Error(
-      'GEMINI_API_KEY or GOOGLE_GENAI_API_KEY environment variable is required'
-    )
-  }
-
-  const genAI = new GoogleGenerativeAI(apiKey)
-
-  const prompt = `${SYSTEM_PROMPT}\n\nSummarize the following transcript:\n\n${transcriptText}`
-
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' })
-
-  const result = await model.generateContent(prompt)
-  const response = await result.response
-  const text = response.text()
+async function summarizeTranscript(
+  transcriptText: string,
+  { provider, model }: LLMSettings
+): Promise<string> {
+  const text = await getLLMProvider(provider).generate({
+    model,
+    system: SYSTEM_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: `Summarize the following transcript:\n\n${transcriptText}`,
+      },
+    ],
+  })
 
   if (!text) {
-    throw new Error('Gemini API returned empty response')
+    throw new Error(`${provider} returned empty response`)
   }
 
   return text
@@ -58,60 +75,18 @@ export const meetingsProcessing = inngest.createFunction(
   { id: 'meetings/processing' },
   { event: 'meetings/processing' },
   async ({ event, step }) => {
-    const response = await step.run('fetch-transcript', async () => {
-      return fetch(event.data.transcriptUrl).then((res) => res.text())
-    })
-
-    const transcript = await step.run('parse-transcript', async () => {
-      return JSONL.parse<StreamTranscriptItem>(response)
-    })
-
-    const transcriptWithSpeakers = await step.run('add-speakers', async () => {
-      const speakerIds = [...new Set(transcript.map((item) => item.speaker_id))]
-
-      const userSpeakers = await db
-        .select()
-        .from(user)
-        .where(inArray(user.id, speakerIds))
-        .then((users) =>
-          users.map((user) => ({
-            ...user,
-          }))
-        )
-
-      const agentSpeakers = await db
-        .select()
-        .from(agents)
-        .where(inArray(agents.id, speakerIds))
-        .then((agents) =>
-          agents.map((agent) => ({
-            ...agent,
-          }))
-        )
-
-      const speakers = [...userSpeakers, ...agentSpeakers]
-
-      return transcript.map((item) => {
-        const speaker = speakers.find(
-          (speaker) => speaker.id === item.speaker_id
-        )
-
-        if (!speaker) {
-          return {
-            ...item,
-            user: {
-              name: 'Unknown',
-            },
-          }
-        }
-
-        return {
-          ...item,
-          user: {
-            name: speaker.name || 'Unknown',
-          },
-        }
+    // Speakers are resolved like the transcript tab does, guests included
+    const transcriptWithSpeakers = await step.run('load-transcript', async () => {
+      const transcript = await getTranscriptWithSpeakers({
+        id: event.data.meetingId,
+        transcriptUrl: event.data.transcriptUrl,
       })
+
+      // Avatars mean nothing to the summarizer, so only names are kept
+      return transcript.map(({ user: speaker, ...item }) => ({
+        ...item,
+        user: { name: speaker.name },
+      }))
     })
 
     const summary = await step.run('generate-summary', async () => {
@@ -125,10 +100,26 @@ export const meetingsProcessing = inngest.createFunction(
           `[Inngest] Transcript length: ${transcriptText.length} characters`
         )
 
-        const summaryText = await summarizeWithGemini(transcriptText)
+        const [meetingAgent] = await db
+          .select({
+            provider: agents.llmProvider,
+            model: agents.llmModel,
+          })
+          .from(meetings)
+          .innerJoin(agents, eq(meetings.agentId, agents.id))
+          .where(eq(meetings.id, event.data.meetingId))
+
+        if (!meetingAgent) {
+          throw new Error(`Agent not found for meeting ${event.data.meetingId}`)
+        }
+
+        const summaryText = await summarizeTranscript(
+          transcriptText,
+          meetingAgent
+        )
 
         if (!summaryText || summaryText.trim().length === 0) {
-          throw new Error('Gemini returned empty summary')
+          throw new Error('LLM returned empty summary')
         }
 
         console.log(
@@ -166,14 +157,36 @@ export const meetingsProcessing = inngest.createFunction(
       console.log(`[Inngest] Summary preview: ${summary.substring(0, 100)}...`)
 
       try {
-        const result = await db
-          .update(meetings)
-          .set({
-            summary: summary,
-            status: 'completed',
-          })
-          .where(eq(meetings.id, event.data.meetingId))
-          .returning()
+        const transition = await transitionMeetingStatus(
+          event.data.meetingId,
+          MeetingStatus.Completed,
+          {
+            actor: { type: 'system' },
+            cause: 'meetings/processing',
+            set: { summary },
+          }
+        )
+
+        if (
+          !transition.ok &&
+          !(
+            transition.reason === 'invalid_transition' &&
+            transition.current === MeetingStatus.Completed
+          )
+        ) {
+          throw new Error(
+            `Cannot complete meeting ${event.data.meetingId}: ${transition.reason}`
+          )
+        }
+
+        // A retried step finds the meeting already completed; just refresh the summary
+        const result = transition.ok
+          ? [transition.meeting]
+          : await db
+              .update(meetings)
+              .set({ summary })
+              .where(eq(meetings.id, event.data.meetingId))
+              .returning()
 
         if (!result || result.length === 0) {
           throw new Error(`Failed to update meeting ${event.data.meetingId}`)
@@ -195,3 +208,177 @@ export const meetingsProcessing = inngest.createFunction(
     return savedResult
   }
 )
+
+
+export const audioStorageCleanup = inngest.createFunction(
+  { id: 'audio-storage/cleanup' },
+  { cron: '0 3 * * *' },
+  async ({ step }) => {
+    const retentionDays = getAudioRetentionDays()
+
+    const deleted = await step.run('delete-expired-audio', async () => {
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+      return getAudioStorage().deleteOlderThan(AUDIO_PREFIX, cutoff)
+    })
+
+    console.log(
+      `[Inngest] Deleted ${deleted} agent audio objects older than ${retentionDays} days`
+    )
+
+    return { deleted }
+  }
+)
+
+export const webhookEventProcessing = inngest.createFunction(
+  { id: 'webhook/process' },
+  { event: 'webhook/received' },
+  async ({ event, step }) => {
+    await step.run('process-event', async () => {
+      await processWebhookEvent(event.data.webhookEventId)
+    })
+  }
+)
+
+export const unhandledWebhookReport = inngest.createFunction(
+  { id: 'webhook/unhandled-report' },
+  { cron: '0 4 * * *' },
+  async ({ step }) => {
+    const counts = await step.run('count-unhandled-events', async () => {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000)
+      return getUnhandledWebhookEventCounts(since)
+    })
+
+    for (const { type, count } of counts) {
+      console.warn(
+        `[Inngest] ${count} "${type}" webhook events had no handler in the last 24h`
+      )
+    }
+
+    return { counts }
+  }
+)
+
+export const agentDocumentIngest = inngest.createFunction(
+  {
+    id: 'agents/document-ingest',
+    retries: 2,
+    onFailure: async ({ event, error }) => {
+      await db
+        .update(agentDocuments)
+        .set({
+          status: DocumentStatus.Failed,
+          error: error.message,
+          updatedAt: new Date(),
+        })
+        .where(eq(agentDocuments.id, event.data.event.data.documentId))
+    },
+  },
+  { event: 'agents/document.ingest' },
+  async ({ event, step }) => {
+    const documentId: string = event.data.documentId
+
+    await step.run('load-content', async () => {
+      const [document] = await db
+        .select({
+          content: agentDocuments.content,
+          sourceUrl: agentDocuments.sourceUrl,
+        })
+        .from(agentDocuments)
+        .where(eq(agentDocuments.id, documentId))
+
+      if (!document) {
+        throw new Error(`Document ${documentId} not found`)
+      }
+
+      // Uploads arrive with their text already extracted
+      if (document.content || !document.sourceUrl) {
+        return
+      }
+
+      const { title, text } = await fetchUrlText(document.sourceUrl)
+
+      if (!text) {
+        throw new Error('No text found at the URL')
+      }
+
+      await db
+        .update(agentDocuments)
+        .set({
+          content: text.slice(0, MAX_DOCUMENT_CHARACTERS),
+          ...(title ? { name: title } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(agentDocuments.id, documentId))
+    })
+
+    const chunkCount = await step.run('index-document', async () => {
+      return indexDocument(documentId)
+    })
+
+    console.log(
+      `[Inngest] Indexed document ${documentId} into ${chunkCount} chunks`
+    )
+
+    return { chunkCount }
+  }
+)
+
+export const meetingReminderDelivery = inngest.createFunction(
+  { id: 'meetings/reminder-delivery' },
+  { event: 'meetings/reminder.scheduled' },
+  async ({ event, step }) => {
+    const reminderId: string = event.data.reminderId
+
+    const remindAt = await step.run('load-reminder', async () => {
+      const [reminder] = await db
+        .select({ remindAt: meetingReminders.remindAt })
+        .from(meetingReminders)
+        .where(eq(meetingReminders.id, reminderId))
+
+      return reminder?.remindAt ?? null
+    })
+
+    if (!remindAt) {
+      return { sent: false }
+    }
+
+    await step.sleepUntil('wait-for-reminder', remindAt)
+
+    const sent = await step.run('send-reminder', async () => {
+      const [reminder] = await db
+        .select({
+          message: meetingReminders.message,
+          sentAt: meetingReminders.sentAt,
+          meetingName: meetings.name,
+          timezone: meetings.timezone,
+          email: user.email,
+        })
+        .from(meetingReminders)
+        .innerJoin(meetings, eq(meetingReminders.meetingId, meetings.id))
+        .innerJoin(user, eq(meetingReminders.userId, user.id))
+        .where(eq(meetingReminders.id, reminderId))
+
+      // Removed with its meeting, or a replay after it already went out
+      if (!reminder || reminder.sentAt) {
+        return false
+      }
+
+      await sendEmail({
+        to: reminder.email,
+        subject: `Reminder: ${reminder.message}`,
+        text: `${reminder.message}\n\nSet during "${reminder.meetingName}" for ${formatInTimeZone(remindAt, reminder.timezone)}.`,
+      })
+
+      await db
+        .update(meetingReminders)
+        .set({ sentAt: new Date() })
+        .where(
+          and(eq(meetingReminders.id, reminderId), isNull(meetingReminders.sentAt))
+        )
+
+      return true
+    })
+
+    return { sent }
+  }
+)
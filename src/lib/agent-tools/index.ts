@@ -0,0 +1,250 @@
+import 'server-only'
+
+import {
+  createAgent,
+  createState,
+  createTool,
+  gemini,
+  openai,
+  type Message,
+} from '@inngest/agent-kit'
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+
+import { db } from '@/db'
+import { agentToolInvocations, meetings } from '@/db/schema'
+import type { LLMMessage, LLMSettings } from '@/lib/llm'
+import { formatInTimeZone } from '@/lib/timezone'
+
+import {
+  AgentToolContext,
+  AgentToolDefinition,
+  AgentToolName,
+  getAgentTool,
+} from './registry'
+import './tools'
+
+export type { AgentToolName } from './registry'
+
+export interface AgentToolSettings {
+  enabled: AgentToolName[]
+  httpUrl: string | null
+  httpDescription: string | null
+}
+
+export interface AgentToolCall {
+  tool: AgentToolName
+  input: unknown
+  output: unknown
+  error: string | null
+}
+
+export interface AgentToolRun {
+  /** What the model said alongside (or instead of) calling tools */
+  text: string
+  calls: AgentToolCall[]
+}
+
+interface RunAgentToolsOptions {
+  meetingId: string
+  agentId: string
+  agentName: string
+  llm: LLMSettings
+  tools: AgentToolSettings
+  system: string
+  history: LLMMessage[]
+}
+
+// The agent-kit adapters call the provider APIs directly, so they need the
+// same credentials as `getLLMProvider`
+function getToolModel({ provider, model }: LLMSettings) {
+  switch (provider) {
+    case 'gemini': {
+      const apiKey =
+        process.env.GEMINI_API_KEY || process.env.GOOGLE_GENAI_API_KEY
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY or GOOGLE_GENAI_API_KEY is required')
+      }
+      return gemini({ model, apiKey })
+    }
+    case 'openai': {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY is required')
+      }
+      return openai({
+        model,
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL,
+      })
+    }
+    case 'openai_compatible': {
+      if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new Error('OPENAI_COMPATIBLE_BASE_URL is required')
+      }
+      return openai({
+        model,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      })
+    }
+  }
+}
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Validates the model's arguments, runs `tool` and records the call in the
+ * meeting's audit log, whether it succeeds or not. Errors are rethrown so the
+ * model is told the call failed.
+ */
+async function invokeTool(
+  tool: AgentToolDefinition,
+  rawInput: unknown,
+  ctx: AgentToolContext,
+  calls: AgentToolCall[]
+) {
+  const startedAt = Date.now()
+  // Only validated arguments reach the handler and the audit log
+  let input: Record<string, unknown> | null = null
+  let output: unknown = null
+  let error: string | null = null
+
+  try {
+    const parsed = tool.parameters.safeParse(rawInput)
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid arguments for ${tool.name}:\n${z.prettifyError(parsed.error)}`
+      )
+    }
+
+    input = parsed.data
+    output = await tool.handler(input, ctx)
+    return output
+  } catch (err) {
+    error = getErrorMessage(err)
+    throw err
+  } finally {
+    calls.push({ tool: tool.name, input, output, error })
+
+    await db
+      .insert(agentToolInvocations)
+      .values({
+        meetingId: ctx.meetingId,
+        agentId: ctx.agentId,
+        tool: tool.name,
+        input: input ?? {},
+        output,
+        status: error ? 'failed' : 'succeeded',
+        error,
+        durationMs: Date.now() - startedAt,
+      })
+      .catch((logError) => {
+        console.error('[Agent Tools] Failed to log tool call:', logError)
+      })
+  }
+}
+
+function getOutputText(output: Message[]) {
+  return output
+    .flatMap((message) => {
+      if (message.type !== 'text' || message.role !== 'assistant') return []
+      return typeof message.content === 'string'
+        ? [message.content]
+        : message.content.map((part) => part.text)
+    })
+    .join(' ')
+    .trim()
+}
+
+/**
+ * Gives the agent one chance to call its enabled tools for the latest turn.
+ * The model either answers directly or calls tools; tool results come back in
+ * `calls` for the spoken reply to build on.
+ */
+export async function runAgentTools({
+  meetingId,
+  agentId,
+  agentName,
+  llm,
+  tools: settings,
+  system,
+  history,
+}: RunAgentToolsOptions): Promise<AgentToolRun> {
+  const [meeting] = await db
+    .select({ userId: meetings.userId, timezone: meetings.timezone })
+    .from(meetings)
+    .where(eq(meetings.id, meetingId))
+
+  if (!meeting) {
+    throw new Error(`Meeting ${meetingId} not found`)
+  }
+
+  const ctx: AgentToolContext = {
+    meetingId,
+    agentId,
+    userId: meeting.userId,
+    timezone: meeting.timezone,
+    httpToolUrl: settings.httpUrl,
+    httpToolDescription: settings.httpDescription,
+  }
+
+  const calls: AgentToolCall[] = []
+
+  const tools = settings.enabled.flatMap((name) => {
+    const tool = getAgentTool(name)
+    if (!tool) return []
+
+    return [
+      createTool({
+        name: tool.name,
+        description:
+          typeof tool.description === 'function'
+            ? tool.description(ctx)
+            : tool.description,
+        parameters: tool.parameters,
+        handler: (input) => invokeTool(tool, input, ctx, calls),
+      }),
+    ]
+  })
+
+  const agent = createAgent({
+    name: agentName,
+    system: `${system}\n\nThe current date and time is ${formatInTimeZone(
+      new Date(),
+      meeting.timezone
+    )} (${meeting.timezone}). Use a tool only when the latest message asks for something it does; otherwise just answer.`,
+    model: getToolModel(llm),
+    tools,
+  })
+
+  // History already ends with the latest user turn, so the run input is empty
+  const state = createState(
+    {},
+    {
+      messages: history.map(
+        (message): Message => ({
+          type: 'text',
+          role: message.role,
+          content: message.content,
+        })
+      ),
+    }
+  )
+
+  const result = await agent.run('', { state })
+
+  return { text: getOutputText(result.output), calls }
+}
+
+/** Describes tool results for the system prompt of the spoken reply. */
+export function formatToolCalls(calls: AgentToolCall[]) {
+  const lines = calls.map(({ tool, input, output, error }) =>
+    error
+      ? `- ${tool}(${JSON.stringify(input)}) failed: ${error}`
+      : `- ${tool}(${JSON.stringify(input)}) returned ${JSON.stringify(output)}`
+  )
+
+  return `You just used these tools for the latest message:\n${lines.join('\n')}\n\nTell the user what you did and what came back. If a tool failed, say so briefly.`
+}
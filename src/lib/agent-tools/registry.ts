@@ -0,0 +1,40 @@
+import 'server-only'
+
+import { z } from 'zod'
+
+import { agentTool } from '@/db/schema'
+
+export type AgentToolName = (typeof agentTool.enumValues)[number]
+
+export interface AgentToolContext {
+  meetingId: string
+  agentId: string
+  /** Owner of the meeting; tools act on their behalf */
+  userId: string
+  timezone: string
+  httpToolUrl: string | null
+  httpToolDescription: string | null
+}
+
+export interface AgentToolDefinition<TInput extends z.ZodObject = z.ZodObject> {
+  name: AgentToolName
+  /** Shown to the model; may depend on the agent's configuration */
+  description: string | ((ctx: AgentToolContext) => string)
+  parameters: TInput
+  handler(input: z.output<TInput>, ctx: AgentToolContext): Promise<unknown>
+}
+
+const tools = new Map<AgentToolName, AgentToolDefinition>()
+
+export function registerAgentTool<TInput extends z.ZodObject>(
+  tool: AgentToolDefinition<TInput>
+) {
+  if (tools.has(tool.name)) {
+    throw new Error(`An agent tool named ${tool.name} is already registered`)
+  }
+  tools.set(tool.name, tool as unknown as AgentToolDefinition)
+}
+
+export function getAgentTool(name: AgentToolName): AgentToolDefinition | null {
+  return tools.get(name) ?? null
+}
@@ -0,0 +1,53 @@
+import 'server-only'
+
+import { z } from 'zod'
+
+import { fetchPublicUrl } from '@/lib/safe-fetch'
+
+import { AgentToolDefinition } from '../registry'
+
+const REQUEST_TIMEOUT_MS = 10_000
+
+// Replies are fed back to the model, so very large bodies are truncated
+const MAX_RESPONSE_LENGTH = 4000
+
+const parameters = z.object({
+  request: z
+    .string()
+    .min(1)
+    .max(2000)
+    .describe('What you need from the endpoint, in plain words or JSON'),
+})
+
+export const callHttpEndpointTool: AgentToolDefinition<typeof parameters> = {
+  name: 'call_http_endpoint',
+  description: (ctx) =>
+    `Call the user's own HTTP service and use its reply.${
+      ctx.httpToolDescription ? ` ${ctx.httpToolDescription}` : ''
+    }`,
+  parameters,
+  async handler({ request }, ctx) {
+    if (!ctx.httpToolUrl) {
+      throw new Error('No HTTP endpoint is configured for this agent')
+    }
+
+    const response = await fetchPublicUrl(ctx.httpToolUrl, {
+      method: 'POST',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        meetingId: ctx.meetingId,
+        agentId: ctx.agentId,
+        request,
+      }),
+    })
+
+    const body = (await response.text()).slice(0, MAX_RESPONSE_LENGTH)
+
+    if (!response.ok) {
+      throw new Error(`Endpoint responded with ${response.status}: ${body}`)
+    }
+
+    return { status: response.status, body }
+  },
+}
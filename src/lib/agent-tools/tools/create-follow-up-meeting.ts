@@ -0,0 +1,86 @@
+import 'server-only'
+
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+
+import { db } from '@/db'
+import { meetings } from '@/db/schema'
+import { formatInTimeZone, zonedTimeToUtc } from '@/lib/timezone'
+import { getMeetingAgents, setAdditionalAgents } from '@/modules/meetings/server/agents'
+import { createMeetingCall } from '@/modules/meetings/server/call'
+import { recordMeetingCreated } from '@/modules/meetings/server/status'
+
+import { AgentToolDefinition } from '../registry'
+
+const parameters = z.object({
+  name: z.string().min(1).max(200).describe('Title of the follow-up meeting'),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('Day of the meeting as yyyy-MM-dd'),
+  time: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .describe('Start time as 24-hour HH:mm in the meeting time zone'),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(5)
+    .max(480)
+    .optional()
+    .describe('Length in minutes; defaults to the current meeting length'),
+})
+
+export const createFollowUpMeetingTool: AgentToolDefinition<typeof parameters> = {
+  name: 'create_follow_up_meeting',
+  description:
+    'Schedule a follow-up meeting with you (the same agents) when the user asks to meet again.',
+  parameters,
+  async handler({ name, date, time, durationMinutes }, ctx) {
+    const [currentMeeting] = await db
+      .select()
+      .from(meetings)
+      .where(eq(meetings.id, ctx.meetingId))
+
+    if (!currentMeeting) {
+      throw new Error(`Meeting ${ctx.meetingId} not found`)
+    }
+
+    const scheduledStartAt = zonedTimeToUtc(date, time, ctx.timezone)
+    if (Number.isNaN(scheduledStartAt.getTime())) {
+      throw new Error(`Invalid date or time: ${date} ${time}`)
+    }
+    if (scheduledStartAt.getTime() <= Date.now()) {
+      throw new Error('The follow-up meeting must start in the future')
+    }
+
+    const [createdMeeting] = await db
+      .insert(meetings)
+      .values({
+        name,
+        userId: currentMeeting.userId,
+        agentId: currentMeeting.agentId,
+        turnPolicy: currentMeeting.turnPolicy,
+        scheduledStartAt,
+        scheduledDurationMinutes:
+          durationMinutes ?? currentMeeting.scheduledDurationMinutes,
+        timezone: ctx.timezone,
+      })
+      .returning()
+
+    const [, ...additionalAgents] = await getMeetingAgents(currentMeeting)
+    await setAdditionalAgents(
+      createdMeeting.id,
+      createdMeeting.agentId,
+      additionalAgents.map((agent) => agent.id)
+    )
+    await recordMeetingCreated(createdMeeting, { type: 'system' })
+    await createMeetingCall(createdMeeting, currentMeeting.userId)
+
+    return {
+      meetingId: createdMeeting.id,
+      name: createdMeeting.name,
+      startsAt: formatInTimeZone(scheduledStartAt, ctx.timezone),
+    }
+  },
+}
@@ -0,0 +1,16 @@
+import 'server-only'
+
+import { registerAgentTool } from '../registry'
+
+import { callHttpEndpointTool } from './call-http-endpoint'
+import { createFollowUpMeetingTool } from './create-follow-up-meeting'
+import { lookupMeetingSummaryTool } from './lookup-meeting-summary'
+import { setReminderTool } from './set-reminder'
+import { takeNoteTool } from './take-note'
+
+// New tools need a module here, a value in the agent_tool enum and a label in the agents module
+registerAgentTool(createFollowUpMeetingTool)
+registerAgentTool(lookupMeetingSummaryTool)
+registerAgentTool(takeNoteTool)
+registerAgentTool(setReminderTool)
+registerAgentTool(callHttpEndpointTool)
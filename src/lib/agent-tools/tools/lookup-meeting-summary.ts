@@ -0,0 +1,67 @@
+import 'server-only'
+
+import { and, desc, eq, ne } from 'drizzle-orm'
+import { z } from 'zod'
+
+import { db } from '@/db'
+import { meetings } from '@/db/schema'
+import { formatInTimeZone } from '@/lib/timezone'
+import { getMeetingSearch } from '@/modules/meetings/server/search'
+import { MeetingStatus } from '@/modules/meetings/types'
+
+import { AgentToolDefinition } from '../registry'
+
+const MAX_RESULTS = 3
+
+// Summaries are read aloud, so long ones are cut to keep the prompt small
+const MAX_SUMMARY_LENGTH = 2000
+
+const parameters = z.object({
+  query: z
+    .string()
+    .min(1)
+    .max(200)
+    .describe('Words to search past meeting names, summaries and transcripts for'),
+})
+
+export const lookupMeetingSummaryTool: AgentToolDefinition<typeof parameters> = {
+  name: 'lookup_meeting_summary',
+  description:
+    "Search the user's completed meetings and return the best matching summaries, newest first among equally good matches.",
+  parameters,
+  async handler({ query }, ctx) {
+    const search = getMeetingSearch(query)
+
+    const results = await db
+      .select({
+        name: meetings.name,
+        startedAt: meetings.startedAt,
+        summary: meetings.summary,
+      })
+      .from(meetings)
+      .where(
+        and(
+          eq(meetings.userId, ctx.userId),
+          eq(meetings.status, MeetingStatus.Completed),
+          ne(meetings.id, ctx.meetingId),
+          search.where
+        )
+      )
+      .orderBy(desc(search.rank), desc(meetings.startedAt))
+      .limit(MAX_RESULTS)
+
+    if (results.length === 0) {
+      return { meetings: [], message: `No completed meetings match "${query}"` }
+    }
+
+    return {
+      meetings: results.map((meeting) => ({
+        name: meeting.name,
+        date: meeting.startedAt
+          ? formatInTimeZone(meeting.startedAt, ctx.timezone)
+          : null,
+        summary: meeting.summary?.slice(0, MAX_SUMMARY_LENGTH) ?? null,
+      })),
+    }
+  },
+}
@@ -0,0 +1,63 @@
+import 'server-only'
+
+import { z } from 'zod'
+
+import { db } from '@/db'
+import { meetingReminders } from '@/db/schema'
+import { inngest } from '@/inngest/client'
+import { formatInTimeZone, zonedTimeToUtc } from '@/lib/timezone'
+
+import { AgentToolDefinition } from '../registry'
+
+const parameters = z.object({
+  message: z
+    .string()
+    .min(1)
+    .max(500)
+    .describe('What to remind the user about'),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('Day of the reminder as yyyy-MM-dd'),
+  time: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .describe('Time of the reminder as 24-hour HH:mm in the meeting time zone'),
+})
+
+export const setReminderTool: AgentToolDefinition<typeof parameters> = {
+  name: 'set_reminder',
+  description:
+    'Email the user a reminder at a future date and time they ask for.',
+  parameters,
+  async handler({ message, date, time }, ctx) {
+    const remindAt = zonedTimeToUtc(date, time, ctx.timezone)
+    if (Number.isNaN(remindAt.getTime())) {
+      throw new Error(`Invalid date or time: ${date} ${time}`)
+    }
+    if (remindAt.getTime() <= Date.now()) {
+      throw new Error('The reminder must be in the future')
+    }
+
+    const [reminder] = await db
+      .insert(meetingReminders)
+      .values({
+        meetingId: ctx.meetingId,
+        userId: ctx.userId,
+        agentId: ctx.agentId,
+        message,
+        remindAt,
+      })
+      .returning()
+
+    await inngest.send({
+      name: 'meetings/reminder.scheduled',
+      data: { reminderId: reminder.id },
+    })
+
+    return {
+      reminderId: reminder.id,
+      remindAt: formatInTimeZone(remindAt, ctx.timezone),
+    }
+  },
+}
@@ -0,0 +1,31 @@
+import 'server-only'
+
+import { z } from 'zod'
+
+import { db } from '@/db'
+import { meetingNotes } from '@/db/schema'
+
+import { AgentToolDefinition } from '../registry'
+
+const parameters = z.object({
+  content: z
+    .string()
+    .min(1)
+    .max(2000)
+    .describe('The note, written so it makes sense when read after the meeting'),
+})
+
+export const takeNoteTool: AgentToolDefinition<typeof parameters> = {
+  name: 'take_note',
+  description:
+    'Save a note to this meeting, e.g. a decision, action item or anything the user asks you to write down.',
+  parameters,
+  async handler({ content }, ctx) {
+    const [note] = await db
+      .insert(meetingNotes)
+      .values({ meetingId: ctx.meetingId, agentId: ctx.agentId, content })
+      .returning({ id: meetingNotes.id })
+
+    return { noteId: note.id, saved: true }
+  },
+}
@@ -0,0 +1,42 @@
+import "server-only"
+
+interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+/**
+ * Sends a transactional email through the Resend HTTP API.
+ * Returns false without sending when RESEND_API_KEY is not configured,
+ * so callers can fall back to sharing links by hand in development.
+ */
+export async function sendEmail(message: EmailMessage) {
+  const apiKey = process.env.RESEND_API_KEY
+  if (!apiKey) {
+    console.warn(`[Email] RESEND_API_KEY not set; skipping "${message.subject}" to ${message.to}`)
+    return false
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: process.env.EMAIL_FROM || "hello.ai <onboarding@resend.dev>",
+      to: [message.to],
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to send email: ${response.status} ${await response.text()}`)
+  }
+
+  return true
+}
@@ -0,0 +1,50 @@
+import 'server-only'
+
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai'
+
+const EMBEDDING_MODEL = 'text-embedding-004'
+
+// The API accepts at most 100 texts per batch request
+const EMBEDDING_BATCH_SIZE = 100
+
+let client: GoogleGenerativeAI | null = null
+
+function getEmbeddingModel() {
+  if (!client) {
+    const apiKey =
+      process.env.GEMINI_API_KEY || process.env.GOOGLE_GENAI_API_KEY
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY or GOOGLE_GENAI_API_KEY is required')
+    }
+    client = new GoogleGenerativeAI(apiKey)
+  }
+  return client.getGenerativeModel({ model: EMBEDDING_MODEL })
+}
+
+/** Embeds document chunks for storage, in input order. */
+export async function embedDocuments(texts: string[]): Promise<number[][]> {
+  const model = getEmbeddingModel()
+  const embeddings: number[][] = []
+
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE)
+    const result = await model.batchEmbedContents({
+      requests: batch.map((text) => ({
+        content: { role: 'user', parts: [{ text }] },
+        taskType: TaskType.RETRIEVAL_DOCUMENT,
+      })),
+    })
+    embeddings.push(...result.embeddings.map((embedding) => embedding.values))
+  }
+
+  return embeddings
+}
+
+/** Embeds a search query; pairs with vectors from `embedDocuments`. */
+export async function embedQuery(text: string): Promise<number[]> {
+  const result = await getEmbeddingModel().embedContent({
+    content: { role: 'user', parts: [{ text }] },
+    taskType: TaskType.RETRIEVAL_QUERY,
+  })
+  return result.embedding.values
+}
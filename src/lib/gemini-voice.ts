@@ -1,108 +1,178 @@
 import 'server-only'
 
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import * as tts from '@google-cloud/text-to-speech'
 import { StreamVideoClient } from '@stream-io/node-sdk'
 
-import { v2 as cloudinary } from 'cloudinary'
-import { Readable } from 'stream'
-
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET,
-})
+import { randomUUID } from 'crypto'
+import { EventEmitter } from 'events'
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  lt,
+  or,
+  sql,
+} from 'drizzle-orm'
+
+import { db } from '@/db'
+import {
+  agents,
+  agentTurnPolicy,
+  conversationTurns,
+  voiceAudioSegments,
+  voiceSessionInputs,
+  voiceSessions,
+} from '@/db/schema'
+import {
+  AUDIO_FORMATS,
+  synthesizeSpeech,
+  VoiceSettings,
+} from '@/lib/text-to-speech'
+import { getLLMProvider, LLMMessage, LLMSettings } from '@/lib/llm'
+import { AUDIO_PREFIX, getAudioStorage } from '@/lib/storage'
+import {
+  formatKnowledgeContext,
+  retrieveKnowledge,
+} from '@/modules/knowledge/server/retrieval'
+import {
+  AgentToolName,
+  AgentToolRun,
+  AgentToolSettings,
+  formatToolCalls,
+  runAgentTools,
+} from '@/lib/agent-tools'
 
 type Call = ReturnType<StreamVideoClient['call']>
 
-let ttsClient: tts.TextToSpeechClient | null = null
-let geminiClient: GoogleGenerativeAI | null = null
+// A lock older than this is assumed to belong to an instance that died mid-turn
+const PROCESSING_LOCK_TIMEOUT_MS = 60_000
+
+// How long the speaker must stay quiet before queued captions become a prompt
+const DEFAULT_DEBOUNCE_MS = 800
+
+// Sentences shorter than this are merged with the next one to avoid choppy audio
+const MIN_SEGMENT_LENGTH = 20
+
+// Used if every agent row disappears mid-call; mirrors the column defaults
+const DEFAULT_AGENT_CONFIG: Omit<AgentConfig, 'id'> = {
+  name: 'Assistant',
+  instructions: 'You are a helpful assistant.',
+  voice: {
+    languageCode: 'en-US',
+    voiceName: 'en-US-Neural2-F',
+    speakingRate: 1,
+    pitch: 0,
+    audioEncoding: 'LINEAR16',
+  },
+  llm: {
+    provider: 'gemini',
+    model: 'gemini-2.0-flash-exp',
+  },
+  tools: {
+    enabled: [],
+    httpUrl: null,
+    httpDescription: null,
+  },
+}
 
-function getGoogleCredentials() {
-  if (process.env.GOOGLE_CLIENT_EMAIL && process.env.GOOGLE_PRIVATE_KEY) {
-    return {
-      client_email: process.env.GOOGLE_CLIENT_EMAIL,
-      private_key: process.env.GOOGLE_PRIVATE_KEY.replace(/\\n/g, '\n'),
-      project_id: process.env.GOOGLE_PROJECT_ID,
-    }
-  }
+const FALLBACK_RESPONSE = 'I apologize, but I could not generate a response.'
 
-  if (process.env.GOOGLE_CLOUD_CREDENTIALS_BASE64) {
-    try {
-      const decoded = Buffer.from(
-        process.env.GOOGLE_CLOUD_CREDENTIALS_BASE64,
-        'base64'
-      ).toString('utf-8')
-      return JSON.parse(decoded)
-    } catch (error) {
-      console.error('[Gemini Voice] Failed to parse Google credentials:', error)
-      return null
-    }
-  }
-  return null
+interface GeminiVoiceServiceOptions {
+  debounceMs?: number
+}
+
+interface AgentConfig {
+  id: string
+  name: string
+  instructions: string
+  voice: VoiceSettings
+  llm: LLMSettings
+  tools: AgentToolSettings
 }
-// --------------------------------------------------------------------
 
-function getTTSClient() {
-  if (!ttsClient) {
-    const credentials = getGoogleCredentials()
+export type TurnPolicy = (typeof agentTurnPolicy.enumValues)[number]
 
-    if (credentials) {
-      ttsClient = new tts.TextToSpeechClient({
-        credentials: {
-          client_email: credentials.client_email,
-          private_key: credentials.private_key,
-        },
-        projectId: credentials.project_id,
-      })
-    }
-    else if (process.env.GOOGLE_CLOUD_KEYFILE) {
-      ttsClient = new tts.TextToSpeechClient({
-        keyFilename: process.env.GOOGLE_CLOUD_KEYFILE,
-      })
-    }
-  }
-  return ttsClient
+interface SessionOptions {
+  // Lead agent first; it answers whenever the policy has no better candidate
+  agentIds: string[]
+  turnPolicy: TurnPolicy
 }
 
-function getGeminiClient() {
-  const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_GENAI_API_KEY
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY or GOOGLE_GENAI_API_KEY is required')
-  }
-  if (!geminiClient) {
-    geminiClient = new GoogleGenerativeAI(apiKey)
+export type AudioResponse = {
+  id: number
+  text: string
+  audioUrl: string
+  timestamp: Date
+}
+
+/**
+ * Splits streamed text into complete sentences, keeping the unfinished tail
+ * (and any sentence too short to stand alone) for the next chunk.
+ */
+function splitSentences(text: string): { segments: string[]; rest: string } {
+  const segments: string[] = []
+  const sentenceEnd = /[.!?]+["')\]]*\s+/g
+
+  let start = 0
+  let match: RegExpExecArray | null
+  while ((match = sentenceEnd.exec(text))) {
+    const end = match.index + match[0].length
+    const segment = text.slice(start, end).trim()
+    if (segment.length >= MIN_SEGMENT_LENGTH) {
+      segments.push(segment)
+      start = end
+    }
   }
-  return geminiClient
+
+  return { segments, rest: text.slice(start) }
 }
 
-interface GeminiVoiceSession {
-  call: Call
-  agentUserId: string
-  instructions: string
-  conversationHistory: Array<{ role: string; content: string }>
-  isProcessing: boolean
-  audioResponses: Array<{ text: string; audioUrl: string; timestamp: Date }>
+/** Position of the first whole-word, case-insensitive mention of `name`, or -1. */
+function findMention(text: string, name: string): number {
+  const escaped = name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  if (!escaped) return -1
+  return text.search(new RegExp(`\\b${escaped}\\b`, 'i'))
 }
 
 export class GeminiVoiceService {
-  private sessions: Map<string, GeminiVoiceSession> = new Map()
+  // Wakes up SSE streams served by this instance; others pick turns up by polling
+  private audioEvents = new EventEmitter().setMaxListeners(0)
+  private debounceMs: number
+
+  constructor(options: GeminiVoiceServiceOptions = {}) {
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS
+  }
 
   async startSession(
     call: Call,
-    agentUserId: string,
-    instructions: string
+    { agentIds, turnPolicy }: SessionOptions
   ): Promise<void> {
     const sessionId = call.id
 
-    this.sessions.set(sessionId, {
-      call,
-      agentUserId,
-      instructions,
-      conversationHistory: [],
-      isProcessing: false,
-      audioResponses: [],
-    })
+    await db
+      .insert(voiceSessions)
+      .values({
+        meetingId: sessionId,
+        agentIds,
+        turnPolicy,
+      })
+      // A repeated session start (rejoin, webhook redelivery) must not drop the
+      // lock of a turn in progress; only a session that had ended starts afresh
+      .onConflictDoUpdate({
+        target: voiceSessions.meetingId,
+        set: {
+          agentIds,
+          turnPolicy,
+          nextAgentIndex: sql`CASE WHEN ${voiceSessions.endedAt} IS NULL THEN ${voiceSessions.nextAgentIndex} ELSE 0 END`,
+          isProcessing: sql`CASE WHEN ${voiceSessions.endedAt} IS NULL THEN ${voiceSessions.isProcessing} ELSE false END`,
+          lockId: sql`CASE WHEN ${voiceSessions.endedAt} IS NULL THEN ${voiceSessions.lockId} ELSE NULL END`,
+          endedAt: null,
+          updatedAt: new Date(),
+        },
+      })
   }
 
   async processTranscription(
@@ -110,73 +180,253 @@ export class GeminiVoiceService {
     transcriptionText: string,
     speakerId: string
   ): Promise<void> {
-    const session = this.sessions.get(callId)
-    if (!session || session.isProcessing) {
-      return
+    const queued = await this.enqueueTranscription(
+      callId,
+      transcriptionText,
+      speakerId
+    )
+    if (queued) {
+      await this.drainTranscriptions(callId)
+    }
+  }
+
+  /**
+   * Stores a caption for the next turn. Returns false when there is no live
+   * session or the caption was spoken by one of the session's agents.
+   */
+  async enqueueTranscription(
+    callId: string,
+    transcriptionText: string,
+    speakerId: string
+  ): Promise<boolean> {
+    const session = await this.getActiveSession(callId)
+    if (!session || session.agentIds.includes(speakerId)) {
+      return false
     }
 
-    if (speakerId === session.agentUserId) {
+    await db.insert(voiceSessionInputs).values({
+      meetingId: callId,
+      speakerId,
+      text: transcriptionText,
+      createdAt: new Date(),
+    })
+    return true
+  }
+
+  /**
+   * Runs turns until the input queue is empty. Safe to call from every
+   * instance: only the one holding the session lock does any work, and
+   * captions that arrive mid-turn are coalesced into the following prompt.
+   */
+  async drainTranscriptions(callId: string): Promise<void> {
+    if (!(await this.waitForSilence(callId))) {
       return
     }
 
-    session.isProcessing = true
+    const lockId = await this.claimSession(callId)
+    if (!lockId) {
+      return
+    }
 
     try {
-      session.conversationHistory.push({
-        role: 'user',
-        content: transcriptionText,
-      })
+      while (await this.waitForSilence(callId)) {
+        const session = await this.getActiveSession(callId)
+        if (!session) {
+          break
+        }
 
-      const geminiResponse = await this.generateGeminiResponse(
-        session.instructions,
-        session.conversationHistory
-      )
+        // Another instance took over a lock we held for too long
+        if (!(await this.refreshLock(callId, lockId))) {
+          break
+        }
 
-      session.conversationHistory.push({
-        role: 'assistant',
-        content: geminiResponse,
-      })
+        const inputs = await this.consumePendingInputs(callId)
+        if (inputs.length === 0) {
+          continue
+        }
 
-      console.log(
-        '[Gemini Voice] TTS request text:',
-        geminiResponse.slice(0, 120)
+        const transcriptionText = inputs.map((input) => input.text).join(' ')
+        const agentConfigs = await this.getAgentConfigs(session.agentIds)
+        const responders = await this.selectResponders(
+          session,
+          agentConfigs,
+          transcriptionText
+        )
+        await this.respond(
+          callId,
+          lockId,
+          agentConfigs,
+          responders,
+          transcriptionText
+        )
+      }
+    } finally {
+      await db
+        .update(voiceSessions)
+        .set({ isProcessing: false, lockId: null, updatedAt: new Date() })
+        .where(
+          and(
+            eq(voiceSessions.meetingId, callId),
+            eq(voiceSessions.lockId, lockId)
+          )
+        )
+    }
+
+    // A caption may have landed after our last check but before the unlock,
+    // in which case its own drain call gave up on the lock
+    if (await this.hasPendingInputs(callId)) {
+      await this.drainTranscriptions(callId)
+    }
+  }
+
+  /**
+   * Picks who answers this turn. A lone agent always does; otherwise the
+   * session's policy decides, falling back to the lead agent.
+   */
+  private async selectResponders(
+    session: typeof voiceSessions.$inferSelect,
+    agentConfigs: AgentConfig[],
+    transcriptionText: string
+  ): Promise<AgentConfig[]> {
+    const [leadAgent] = agentConfigs
+    if (agentConfigs.length === 1) {
+      return [leadAgent]
+    }
+
+    switch (session.turnPolicy) {
+      case 'addressed': {
+        // Everyone named answers, in the order they were mentioned
+        const addressed = agentConfigs
+          .map((agent) => ({
+            agent,
+            index: findMention(transcriptionText, agent.name),
+          }))
+          .filter(({ index }) => index >= 0)
+          .sort((a, b) => a.index - b.index)
+          .map(({ agent }) => agent)
+        return addressed.length > 0 ? addressed : [leadAgent]
+      }
+      case 'round_robin': {
+        const index = session.nextAgentIndex % agentConfigs.length
+        await db
+          .update(voiceSessions)
+          .set({ nextAgentIndex: (index + 1) % agentConfigs.length })
+          .where(eq(voiceSessions.meetingId, session.meetingId))
+        return [agentConfigs[index]]
+      }
+      case 'moderator':
+        return [await this.pickByModerator(agentConfigs, transcriptionText)]
+    }
+  }
+
+  // The lead agent's model chooses the best-placed agent by name
+  private async pickByModerator(
+    agentConfigs: AgentConfig[],
+    transcriptionText: string
+  ): Promise<AgentConfig> {
+    const [moderator] = agentConfigs
+    const roster = agentConfigs
+      .map(
+        (agent) =>
+          `- ${agent.name}: ${agent.instructions.split('\n')[0].slice(0, 200)}`
       )
-      const audioBuffer = await this.textToSpeech(geminiResponse)
-      console.log(
-        '[Gemini Voice] TTS response buffer bytes:',
-        audioBuffer ? audioBuffer.length : 0
+      .join('\n')
+
+    try {
+      const choice = await getLLMProvider(moderator.llm.provider).generate({
+        model: moderator.llm.model,
+        system: `You moderate a meeting between people and these AI agents:\n${roster}\n\nReply with only the name of the one agent best placed to answer the latest message.`,
+        messages: [{ role: 'user', content: transcriptionText }],
+      })
+      const picked = agentConfigs.find(
+        (agent) => findMention(choice, agent.name) >= 0
       )
+      if (picked) {
+        return picked
+      }
+    } catch (error) {
+      console.error('[Gemini Voice] Moderator failed to pick an agent:', error)
+    }
 
-      if (audioBuffer) {
-        try {
-          console.log('[Gemini Voice] Uploading to Cloudinary...')
-          const audioUrl = await this.uploadToCloudinary(audioBuffer, callId)
+    return moderator
+  }
 
-          session.audioResponses.push({
-            text: geminiResponse,
-            audioUrl, 
-            timestamp: new Date(),
-          })
+  private async respond(
+    callId: string,
+    lockId: string,
+    agentConfigs: AgentConfig[],
+    responders: AgentConfig[],
+    transcriptionText: string
+  ): Promise<void> {
+    try {
+      await db.insert(conversationTurns).values({
+        meetingId: callId,
+        role: 'user',
+        content: transcriptionText,
+      })
 
-          console.log(
-            `[Gemini Voice] Uploaded audio to Cloudinary: ${audioUrl}`
-          )
-        } catch (saveError) {
-          console.error(
-            '[Gemini Voice] Error uploading audio to Cloudinary:',
-            saveError
-          )
+      // Responders go one after another so each hears what the previous one said
+      for (const agent of responders) {
+        // A turn with several responders can easily outlast the lock timeout
+        if (!(await this.refreshLock(callId, lockId))) {
+          return
         }
-      } else {
-        try {
-          session.audioResponses.push({
-            text: geminiResponse,
-            audioUrl: '',
-            timestamp: new Date(),
+
+        const conversationHistory = await this.getConversationHistory(
+          callId,
+          agent,
+          agentConfigs
+        )
+        const knowledgeContext = await this.getKnowledgeContext(
+          agent,
+          transcriptionText
+        )
+        const toolRun = await this.runTools(
+          callId,
+          agent,
+          this.getSystemPrompt(agent, agentConfigs, [knowledgeContext]),
+          conversationHistory
+        )
+
+        // Segments are synthesized one after another while the model keeps
+        // streaming, so they are published in order without waiting for the full answer
+        let publishing = Promise.resolve()
+        const onSegment = (segment: string) => {
+          publishing = publishing.then(async () => {
+            await this.refreshLock(callId, lockId)
+            await this.publishSegment(callId, agent.voice, segment)
           })
-        } catch (error) {
-          console.error('[Gemini Voice] Error storing text response:', error)
         }
+
+        let agentResponse: string
+        if (toolRun?.calls.length === 0 && toolRun.text) {
+          // The tool pass answered without using tools; no need to ask twice
+          agentResponse = toolRun.text
+          const { segments, rest } = splitSentences(`${agentResponse} `)
+          segments.forEach(onSegment)
+          if (rest.trim()) onSegment(rest.trim())
+        } else {
+          const toolContext = toolRun?.calls.length
+            ? formatToolCalls(toolRun.calls)
+            : ''
+          agentResponse = await this.streamAgentResponse(
+            agent,
+            this.getSystemPrompt(agent, agentConfigs, [
+              knowledgeContext,
+              toolContext,
+            ]),
+            conversationHistory,
+            onSegment
+          )
+        }
+        await publishing
+
+        await db.insert(conversationTurns).values({
+          meetingId: callId,
+          role: 'assistant',
+          agentId: agent.id,
+          content: agentResponse,
+        })
       }
 
       console.log(
@@ -187,117 +437,439 @@ export class GeminiVoiceService {
       )
     } catch (error) {
       console.error('[Gemini Voice] Error processing transcription:', error)
-    } finally {
-      session.isProcessing = false
     }
   }
 
-  private async uploadToCloudinary(
-    buffer: Buffer,
-    callId: string
-  ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const uploadStream = cloudinary.uploader.upload_stream(
-        {
-          resource_type: 'auto',
-          public_id: `voice_agent/${callId}-${Date.now()}`, 
-          format: 'wav',
-        },
-        (error, result) => {
-          if (error) {
-            console.error('Cloudinary upload error details:', error)
-            return reject(error)
-          }
-          if (result?.secure_url) {
-            resolve(result.secure_url)
-          } else {
-            reject(new Error('Cloudinary upload failed to return URL'))
-          }
-        }
+  private async publishSegment(
+    callId: string,
+    voice: VoiceSettings,
+    text: string
+  ): Promise<void> {
+    try {
+      console.log('[Gemini Voice] TTS request text:', text.slice(0, 120))
+      const audioBuffer = await synthesizeSpeech(text, voice)
+      console.log(
+        '[Gemini Voice] TTS response buffer bytes:',
+        audioBuffer ? audioBuffer.length : 0
       )
 
-      Readable.from(buffer).pipe(uploadStream)
+      let audioUrl = ''
+      if (audioBuffer) {
+        try {
+          const { extension, mimeType } = AUDIO_FORMATS[voice.audioEncoding]
+          console.log('[Gemini Voice] Uploading audio...')
+          audioUrl = await getAudioStorage().upload(
+            `${AUDIO_PREFIX}${callId}-${Date.now()}.${extension}`,
+            audioBuffer,
+            mimeType
+          )
+
+          console.log(`[Gemini Voice] Uploaded audio: ${audioUrl}`)
+        } catch (saveError) {
+          console.error('[Gemini Voice] Error uploading audio:', saveError)
+        }
+      }
+
+      await db.insert(voiceAudioSegments).values({
+        meetingId: callId,
+        text,
+        audioUrl,
+      })
+      this.audioEvents.emit(callId)
+    } catch (error) {
+      console.error('[Gemini Voice] Error publishing audio segment:', error)
+    }
+  }
+
+  // In session order; agents deleted mid-call are dropped
+  private async getAgentConfigs(agentIds: string[]): Promise<AgentConfig[]> {
+    const rows = await db
+      .select()
+      .from(agents)
+      .where(inArray(agents.id, agentIds))
+
+    const configs = agentIds.flatMap((agentId) => {
+      const agent = rows.find((row) => row.id === agentId)
+      return agent ? [this.toAgentConfig(agent)] : []
     })
+
+    return configs.length > 0
+      ? configs
+      : [{ id: agentIds[0], ...DEFAULT_AGENT_CONFIG }]
   }
 
-  private async generateGeminiResponse(
-    instructions: string,
-    history: Array<{ role: string; content: string }>
-  ): Promise<string> {
-    const genAI = getGeminiClient()
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' })
+  private toAgentConfig(agent: typeof agents.$inferSelect): AgentConfig {
+    return {
+      id: agent.id,
+      name: agent.name,
+      instructions: agent.instructions,
+      voice: {
+        languageCode: agent.languageCode,
+        voiceName: agent.voiceName,
+        speakingRate: agent.speakingRate,
+        pitch: agent.pitch,
+        audioEncoding: agent.audioEncoding,
+      },
+      llm: {
+        provider: agent.llmProvider,
+        model: agent.llmModel,
+      },
+      tools: {
+        enabled: agent.enabledTools as AgentToolName[],
+        httpUrl: agent.httpToolUrl,
+        httpDescription: agent.httpToolDescription,
+      },
+    }
+  }
+
+  private async getActiveSession(callId: string) {
+    const [session] = await db
+      .select()
+      .from(voiceSessions)
+      .where(
+        and(eq(voiceSessions.meetingId, callId), isNull(voiceSessions.endedAt))
+      )
+    return session ?? null
+  }
 
-    const systemPrompt = `${instructions}\n\nYou are having a conversation. Respond naturally and concisely.Generate response in single paragraph of 1 to 100 words depending on question. But keep it in one paragraph only.`
+  /**
+   * Keeps a long-running drain from being mistaken for a dead instance's lock.
+   * Returns false once the lock has been taken over by another instance.
+   */
+  private async refreshLock(callId: string, lockId: string): Promise<boolean> {
+    const [refreshed] = await db
+      .update(voiceSessions)
+      .set({ updatedAt: new Date() })
+      .where(
+        and(
+          eq(voiceSessions.meetingId, callId),
+          eq(voiceSessions.isProcessing, true),
+          eq(voiceSessions.lockId, lockId)
+        )
+      )
+      .returning({ meetingId: voiceSessions.meetingId })
+    return !!refreshed
+  }
 
-    const conversationParts = history.map((msg) => {
-      return `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`
-    })
+  // Claim the session atomically so only one instance runs a turn at a time.
+  // Returns the id that proves ownership, or null when someone else holds it
+  private async claimSession(callId: string): Promise<string | null> {
+    const lockId = randomUUID()
+    const [claimed] = await db
+      .update(voiceSessions)
+      .set({ isProcessing: true, lockId, updatedAt: new Date() })
+      .where(
+        and(
+          eq(voiceSessions.meetingId, callId),
+          isNull(voiceSessions.endedAt),
+          or(
+            eq(voiceSessions.isProcessing, false),
+            lt(
+              voiceSessions.updatedAt,
+              new Date(Date.now() - PROCESSING_LOCK_TIMEOUT_MS)
+            )
+          )
+        )
+      )
+      .returning({ meetingId: voiceSessions.meetingId })
+    return claimed ? lockId : null
+  }
 
-    const prompt = `${systemPrompt}\n\nConversation:\n${conversationParts.join(
-      '\n\n'
-    )}\n\nAssistant:`
+  /**
+   * Waits until the newest queued caption is at least `debounceMs` old.
+   * Returns false once the queue is empty.
+   */
+  private async waitForSilence(callId: string): Promise<boolean> {
+    while (true) {
+      const [newest] = await db
+        .select({ createdAt: voiceSessionInputs.createdAt })
+        .from(voiceSessionInputs)
+        .where(
+          and(
+            eq(voiceSessionInputs.meetingId, callId),
+            isNull(voiceSessionInputs.consumedAt)
+          )
+        )
+        .orderBy(desc(voiceSessionInputs.id))
+        .limit(1)
+      if (!newest) {
+        return false
+      }
 
-    console.log('[Gemini Voice] Generating response with Gemini...')
-    const result = await model.generateContent(prompt)
-    const response = await result.response
-    const text = response.text()
+      const remaining =
+        this.debounceMs - (Date.now() - newest.createdAt.getTime())
+      if (remaining <= 0) {
+        return true
+      }
+      await new Promise((resolve) => setTimeout(resolve, remaining))
+    }
+  }
 
-    return text || 'I apologize, but I could not generate a response.'
+  private async hasPendingInputs(callId: string): Promise<boolean> {
+    const [pending] = await db
+      .select({ id: voiceSessionInputs.id })
+      .from(voiceSessionInputs)
+      .where(
+        and(
+          eq(voiceSessionInputs.meetingId, callId),
+          isNull(voiceSessionInputs.consumedAt)
+        )
+      )
+      .limit(1)
+    return !!pending
   }
 
-  private async textToSpeech(text: string): Promise<Buffer | null> {
-    const client = getTTSClient()
-    if (!client) {
-      return null
+  private async consumePendingInputs(callId: string) {
+    const pending = await db
+      .select({ id: voiceSessionInputs.id })
+      .from(voiceSessionInputs)
+      .where(
+        and(
+          eq(voiceSessionInputs.meetingId, callId),
+          isNull(voiceSessionInputs.consumedAt)
+        )
+      )
+    if (pending.length === 0) {
+      return []
     }
 
-    const request: tts.protos.google.cloud.texttospeech.v1.ISynthesizeSpeechRequest =
-      {
-        input: { text },
-        voice: {
-          languageCode: 'en-US',
-          name: 'en-US-Neural2-F',
-          ssmlGender: 'FEMALE' as const,
-        },
-        audioConfig: {
-          audioEncoding: 'LINEAR16' as const,
-          sampleRateHertz: 16000,
-        },
+    const consumed = await db
+      .update(voiceSessionInputs)
+      .set({ consumedAt: new Date() })
+      .where(
+        and(
+          inArray(
+            voiceSessionInputs.id,
+            pending.map((input) => input.id)
+          ),
+          isNull(voiceSessionInputs.consumedAt)
+        )
+      )
+      .returning()
+    return consumed.sort((a, b) => a.id - b.id)
+  }
+
+  /**
+   * History from one agent's point of view: its own answers stay assistant
+   * turns, while other agents' answers read as attributed user lines.
+   */
+  private async getConversationHistory(
+    callId: string,
+    agent: AgentConfig,
+    agentConfigs: AgentConfig[]
+  ): Promise<LLMMessage[]> {
+    const turns = await db
+      .select({
+        role: conversationTurns.role,
+        agentId: conversationTurns.agentId,
+        content: conversationTurns.content,
+      })
+      .from(conversationTurns)
+      .where(eq(conversationTurns.meetingId, callId))
+      .orderBy(asc(conversationTurns.sequence))
+
+    return turns.map(({ role, agentId, content }) => {
+      if (role === 'assistant' && agentId && agentId !== agent.id) {
+        const speaker =
+          agentConfigs.find((config) => config.id === agentId)?.name ??
+          'Another agent'
+        return { role: 'user', content: `${speaker}: ${content}` }
       }
+      return { role, content }
+    })
+  }
+
+  /**
+   * Knowledge base excerpts relevant to what was just said. A failed lookup
+   * only costs the agent its sources, never the turn.
+   */
+  private async getKnowledgeContext(
+    agent: AgentConfig,
+    transcriptionText: string
+  ): Promise<string> {
+    try {
+      const excerpts = await retrieveKnowledge(agent.id, transcriptionText)
+      return formatKnowledgeContext(excerpts)
+    } catch (error) {
+      console.error(
+        `[Gemini Voice] Knowledge retrieval failed for agent ${agent.id}:`,
+        error
+      )
+      return ''
+    }
+  }
 
-    const [response] = await client.synthesizeSpeech(request)
+  /**
+   * Lets agents with tools enabled act on the latest turn before they speak.
+   * Returns null when there is nothing to run or the tool pass failed, in
+   * which case the agent simply answers.
+   */
+  private async runTools(
+    callId: string,
+    agent: AgentConfig,
+    system: string,
+    history: LLMMessage[]
+  ): Promise<AgentToolRun | null> {
+    if (agent.tools.enabled.length === 0) {
+      return null
+    }
 
-    if (!response.audioContent) {
-      throw new Error('Failed to generate audio from text')
+    try {
+      return await runAgentTools({
+        meetingId: callId,
+        agentId: agent.id,
+        agentName: agent.name,
+        llm: agent.llm,
+        tools: agent.tools,
+        system,
+        history,
+      })
+    } catch (error) {
+      console.error(
+        `[Gemini Voice] Tool pass failed for agent ${agent.id}:`,
+        error
+      )
+      return null
     }
+  }
 
-    return Buffer.from(response.audioContent)
+  /** The agent's instructions plus the roster and any per-turn context. */
+  private getSystemPrompt(
+    { id, name, instructions }: AgentConfig,
+    agentConfigs: AgentConfig[],
+    context: string[]
+  ): string {
+    const otherAgents = agentConfigs
+      .filter((config) => config.id !== id)
+      .map((config) => config.name)
+    const roster =
+      otherAgents.length > 0
+        ? `\n\nYou are ${name}, one of several AI agents in this meeting alongside ${otherAgents.join(', ')}. Speak only as ${name}; lines starting with another agent's name were said by them.`
+        : ''
+    const extra = context
+      .filter(Boolean)
+      .map((section) => `\n\n${section}`)
+      .join('')
+    return `${instructions}${roster}${extra}\n\nYou are having a conversation. Respond naturally and concisely.Generate response in single paragraph of 1 to 100 words depending on question. But keep it in one paragraph only.`
   }
 
-  getLatestAudioResponse(callId: string): string | null {
-    const session = this.sessions.get(callId)
-    if (!session || session.audioResponses.length === 0) {
+  private async streamAgentResponse(
+    { llm: { provider, model } }: AgentConfig,
+    system: string,
+    history: LLMMessage[],
+    onSegment: (segment: string) => void
+  ): Promise<string> {
+    console.log(`[Gemini Voice] Streaming response from ${provider}/${model}...`)
+    const stream = getLLMProvider(provider).stream({
+      model,
+      system,
+      messages: history,
+    })
+
+    let text = ''
+    let pending = ''
+    for await (const chunkText of stream) {
+      text += chunkText
+      pending += chunkText
+
+      const { segments, rest } = splitSentences(pending)
+      segments.forEach(onSegment)
+      pending = rest
+    }
+
+    if (!text.trim()) {
+      onSegment(FALLBACK_RESPONSE)
+      return FALLBACK_RESPONSE
+    }
+
+    if (pending.trim()) {
+      onSegment(pending.trim())
+    }
+
+    return text.trim()
+  }
+
+  async getLatestAudioResponse(callId: string): Promise<string | null> {
+    const audioResponses = await this.getAudioResponses(callId)
+    if (audioResponses.length === 0) {
       return null
     }
-    const latest = session.audioResponses[session.audioResponses.length - 1]
+    const latest = audioResponses[audioResponses.length - 1]
     return latest.audioUrl
   }
 
-  getAudioResponses(
-    callId: string
-  ): Array<{ text: string; audioUrl: string; timestamp: Date }> {
-    const session = this.sessions.get(callId)
-    return session?.audioResponses || []
+  async getAudioResponses(
+    callId: string,
+    afterId: number = 0
+  ): Promise<AudioResponse[]> {
+    const segments = await db
+      .select()
+      .from(voiceAudioSegments)
+      .where(
+        and(
+          eq(voiceAudioSegments.meetingId, callId),
+          gt(voiceAudioSegments.id, afterId)
+        )
+      )
+      .orderBy(asc(voiceAudioSegments.id))
+
+    return segments.map((segment) => ({
+      id: segment.id,
+      text: segment.text,
+      audioUrl: segment.audioUrl ?? '',
+      timestamp: segment.createdAt,
+    }))
+  }
+
+  onAudioResponse(callId: string, listener: () => void): () => void {
+    this.audioEvents.on(callId, listener)
+    return () => {
+      this.audioEvents.off(callId, listener)
+    }
   }
 
   async endSession(callId: string): Promise<void> {
-    this.sessions.delete(callId)
+    await db
+      .update(voiceSessions)
+      .set({
+        endedAt: new Date(),
+        isProcessing: false,
+        lockId: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(voiceSessions.meetingId, callId))
+    this.audioEvents.emit(callId)
     console.log(`[Gemini Voice] Session ended for call ${callId}`)
   }
 
-  hasSession(callId: string): boolean {
-    return this.sessions.has(callId)
+  async hasSession(callId: string): Promise<boolean> {
+    const [session] = await db
+      .select({ meetingId: voiceSessions.meetingId })
+      .from(voiceSessions)
+      .where(
+        and(eq(voiceSessions.meetingId, callId), isNull(voiceSessions.endedAt))
+      )
+    return !!session
   }
 }
 
-export const geminiVoiceService = new GeminiVoiceService()
+// Anything but a non-negative number of milliseconds falls back to the default
+function getDebounceMs() {
+  const value = process.env.GEMINI_VOICE_DEBOUNCE_MS
+  if (!value) {
+    return undefined
+  }
+
+  const debounceMs = Number(value)
+  if (!Number.isFinite(debounceMs) || debounceMs < 0) {
+    console.warn(
+      `[Gemini Voice] Ignoring invalid GEMINI_VOICE_DEBOUNCE_MS "${value}"`
+    )
+    return undefined
+  }
+  return debounceMs
+}
+
+export const geminiVoiceService = new GeminiVoiceService({
+  debounceMs: getDebounceMs(),
+})
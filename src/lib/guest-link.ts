@@ -0,0 +1,62 @@
+import "server-only"
+
+import { createHmac, timingSafeEqual } from "crypto"
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60
+
+interface GuestLinkPayload {
+  meetingId: string
+  participantId: string
+  /** Expiry as a unix timestamp in seconds */
+  exp: number
+}
+
+function getSecret() {
+  const secret = process.env.GUEST_LINK_SECRET || process.env.BETTER_AUTH_SECRET
+  if (!secret) {
+    throw new Error("GUEST_LINK_SECRET or BETTER_AUTH_SECRET must be set to sign guest links")
+  }
+  return secret
+}
+
+function sign(value: string) {
+  return createHmac("sha256", getSecret()).update(value).digest("base64url")
+}
+
+/** Signs a token that lets one participant join one meeting without an account. */
+export function createGuestToken(
+  { meetingId, participantId }: Omit<GuestLinkPayload, "exp">,
+  ttlSeconds = DEFAULT_TTL_SECONDS
+) {
+  const payload: GuestLinkPayload = {
+    meetingId,
+    participantId,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url")
+  return `${encoded}.${sign(encoded)}`
+}
+
+/** Returns the payload of a valid, unexpired token, or null. */
+export function verifyGuestToken(token: string): GuestLinkPayload | null {
+  const [encoded, signature] = token.split(".")
+  if (!encoded || !signature) return null
+
+  const expected = Buffer.from(sign(encoded))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString()) as GuestLinkPayload
+    if (payload.exp < Math.floor(Date.now() / 1000)) return null
+    return payload
+  } catch {
+    return null
+  }
+}
+
+export function getGuestLink(appUrl: string, meetingId: string, token: string) {
+  return `${appUrl}/call/${meetingId}?token=${encodeURIComponent(token)}`
+}
@@ -0,0 +1,71 @@
+interface IcsEvent {
+  uid: string
+  title: string
+  description?: string
+  url?: string
+  start: Date
+  durationMinutes: number
+}
+
+function formatIcsDate(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function escapeIcsText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n")
+}
+
+const MAX_LINE_OCTETS = 75
+const encoder = new TextEncoder()
+
+// RFC 5545 caps content lines at 75 octets of UTF-8, counting the leading space
+// of continuation lines. Lines are split between code points, never inside one
+function foldIcsLine(line: string) {
+  const chunks: string[] = []
+  let chunk = ""
+  let chunkOctets = 0
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    const limit = chunks.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS
+    if (chunkOctets + octets > limit) {
+      chunks.push(chunk)
+      chunk = ""
+      chunkOctets = 0
+    }
+    chunk += char
+    chunkOctets += octets
+  }
+  chunks.push(chunk)
+
+  return chunks.join("\r\n ")
+}
+
+/** Builds a single-event iCalendar invite. Times are written in UTC. */
+export function createIcsEvent(event: IcsEvent) {
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000)
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//hello.ai//Meetings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ]
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,52 @@
+import 'server-only'
+
+import { Content, GoogleGenerativeAI } from '@google/generative-ai'
+
+import type { LLMProvider, LLMRequest } from '.'
+
+export class GeminiProvider implements LLMProvider {
+  private client: GoogleGenerativeAI
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenerativeAI(apiKey)
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const result = await this.getModel(request).generateContent({
+      contents: toContents(request),
+    })
+    return result.response.text()
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const result = await this.getModel(request).generateContentStream({
+      contents: toContents(request),
+    })
+    for await (const chunk of result.stream) {
+      yield chunk.text()
+    }
+  }
+
+  private getModel({ model, system }: LLMRequest) {
+    return this.client.getGenerativeModel({
+      model,
+      systemInstruction: system,
+    })
+  }
+}
+
+// Gemini rejects consecutive turns from the same role, which can happen when a
+// turn failed midway, so adjacent messages are merged
+function toContents({ messages }: LLMRequest): Content[] {
+  const contents: Content[] = []
+  for (const message of messages) {
+    const role = message.role === 'assistant' ? 'model' : 'user'
+    const previous = contents[contents.length - 1]
+    if (previous?.role === role) {
+      previous.parts.push({ text: message.content })
+    } else {
+      contents.push({ role, parts: [{ text: message.content }] })
+    }
+  }
+  return contents
+}
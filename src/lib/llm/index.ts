@@ -0,0 +1,72 @@
+import 'server-only'
+
+import { llmProvider } from '@/db/schema'
+
+import { GeminiProvider } from './gemini'
+import { OpenAICompatibleProvider } from './openai-compatible'
+
+export type LLMProviderName = (typeof llmProvider.enumValues)[number]
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMRequest {
+  model: string
+  system?: string
+  messages: LLMMessage[]
+}
+
+export interface LLMProvider {
+  generate(request: LLMRequest): Promise<string>
+  stream(request: LLMRequest): AsyncIterable<string>
+}
+
+export interface LLMSettings {
+  provider: LLMProviderName
+  model: string
+}
+
+const providers = new Map<LLMProviderName, LLMProvider>()
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'gemini': {
+      const apiKey =
+        process.env.GEMINI_API_KEY || process.env.GOOGLE_GENAI_API_KEY
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY or GOOGLE_GENAI_API_KEY is required')
+      }
+      return new GeminiProvider(apiKey)
+    }
+    case 'openai': {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY is required')
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+      })
+    }
+    case 'openai_compatible': {
+      // e.g. Ollama (http://localhost:11434/v1) or a llama.cpp server
+      if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new Error('OPENAI_COMPATIBLE_BASE_URL is required')
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      })
+    }
+  }
+}
+
+export function getLLMProvider(name: LLMProviderName): LLMProvider {
+  let provider = providers.get(name)
+  if (!provider) {
+    provider = createProvider(name)
+    providers.set(name, provider)
+  }
+  return provider
+}
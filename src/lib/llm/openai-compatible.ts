@@ -0,0 +1,96 @@
+import 'server-only'
+
+import type { LLMProvider, LLMRequest } from '.'
+
+interface OpenAICompatibleOptions {
+  baseUrl: string
+  apiKey?: string
+}
+
+interface ChatCompletion {
+  choices: Array<{ message?: { content?: string | null } }>
+}
+
+interface ChatCompletionChunk {
+  choices: Array<{ delta?: { content?: string | null } }>
+}
+
+/**
+ * Speaks the `/chat/completions` API, which covers OpenAI itself as well as
+ * local servers such as Ollama and llama.cpp.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private baseUrl: string
+  private apiKey?: string
+
+  constructor({ baseUrl, apiKey }: OpenAICompatibleOptions) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+    this.apiKey = apiKey
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const response = await this.request(request, false)
+    const completion = (await response.json()) as ChatCompletion
+    return completion.choices[0]?.message?.content ?? ''
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const response = await this.request(request, true)
+    if (!response.body) {
+      throw new Error('LLM response has no body to stream')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        const data = line.trim()
+        if (!data.startsWith('data:')) continue
+
+        const payload = data.slice('data:'.length).trim()
+        if (payload === '[DONE]') return
+
+        const chunk = JSON.parse(payload) as ChatCompletionChunk
+        const content = chunk.choices[0]?.delta?.content
+        if (content) yield content
+      }
+    }
+  }
+
+  private async request(
+    { model, system, messages }: LLMRequest,
+    stream: boolean
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          ...messages,
+        ],
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(
+        `LLM request failed with ${response.status}: ${await response.text()}`
+      )
+    }
+    return response
+  }
+}
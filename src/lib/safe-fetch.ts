@@ -0,0 +1,99 @@
+import "server-only"
+
+import { lookup } from "node:dns/promises"
+import { isIP } from "node:net"
+
+const MAX_REDIRECTS = 5
+
+function parseIPv4(address: string) {
+  return address.split(".").map(Number)
+}
+
+function isPrivateIPv4(address: string) {
+  const [a, b] = parseIPv4(address)
+
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // multicast and reserved
+  )
+}
+
+function isPrivateIPv6(address: string) {
+  const normalized = address.toLowerCase()
+
+  // IPv4-mapped addresses (::ffff:10.0.0.1) reach the IPv4 host
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateIPv4(mapped[1])
+  if (normalized.startsWith("::ffff:")) return true
+
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) || // unique local, fc00::/7
+    /^fe[89ab]/.test(normalized) || // link-local, fe80::/10
+    normalized.startsWith("ff") // multicast
+  )
+}
+
+function isPrivateAddress(address: string) {
+  return isIP(address) === 4 ? isPrivateIPv4(address) : isPrivateIPv6(address)
+}
+
+/**
+ * Throws unless `url` is http(s) and every address its host resolves to is
+ * public. Checking resolved addresses catches hostnames that point inside.
+ */
+async function assertPublicUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Refusing to fetch ${url.protocol} URL ${url}`)
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "")
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true })).map(({ address }) => address)
+
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch private address ${url}`)
+  }
+}
+
+/**
+ * `fetch` for user-supplied URLs. Redirects are followed by hand so that
+ * every hop goes through the same private address check as the first.
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit = {}) {
+  let currentUrl = new URL(url)
+  let currentInit = init
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(currentUrl)
+
+    const response = await fetch(currentUrl, { ...currentInit, redirect: "manual" })
+    const location = response.headers.get("location")
+
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response
+    }
+
+    await response.body?.cancel()
+    currentUrl = new URL(location, currentUrl)
+
+    // Same method rewrite `fetch` applies when it follows redirects itself
+    const method = currentInit.method?.toUpperCase() ?? "GET"
+    if (
+      response.status === 303 ||
+      ((response.status === 301 || response.status === 302) && method === "POST")
+    ) {
+      currentInit = { ...currentInit, method: "GET", body: undefined }
+    }
+  }
+
+  throw new Error(`Too many redirects fetching ${url}`)
+}
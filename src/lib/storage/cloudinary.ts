@@ -0,0 +1,78 @@
+import 'server-only'
+
+import { v2 as cloudinary } from 'cloudinary'
+import { Readable } from 'stream'
+
+import type { AudioStorage } from '.'
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+})
+
+// Cloudinary files audio uploads under the "video" resource type
+const RESOURCE_TYPE = 'video'
+
+export class CloudinaryStorage implements AudioStorage {
+  async upload(key: string, buffer: Buffer): Promise<string> {
+    const extensionIndex = key.lastIndexOf('.')
+    const publicId = extensionIndex > 0 ? key.slice(0, extensionIndex) : key
+    const format = extensionIndex > 0 ? key.slice(extensionIndex + 1) : undefined
+
+    return new Promise((resolve, reject) => {
+      const uploadStream = cloudinary.uploader.upload_stream(
+        {
+          resource_type: 'auto',
+          public_id: publicId,
+          format,
+        },
+        (error, result) => {
+          if (error) {
+            console.error('Cloudinary upload error details:', error)
+            return reject(error)
+          }
+          if (result?.secure_url) {
+            resolve(result.secure_url)
+          } else {
+            reject(new Error('Cloudinary upload failed to return URL'))
+          }
+        }
+      )
+
+      Readable.from(buffer).pipe(uploadStream)
+    })
+  }
+
+  async deleteOlderThan(prefix: string, cutoff: Date): Promise<number> {
+    let deleted = 0
+    let nextCursor: string | undefined
+
+    do {
+      const page = await cloudinary.api.resources({
+        type: 'upload',
+        resource_type: RESOURCE_TYPE,
+        prefix,
+        max_results: 500,
+        next_cursor: nextCursor,
+      })
+
+      const expired = (
+        page.resources as Array<{ public_id: string; created_at: string }>
+      )
+        .filter((resource) => new Date(resource.created_at) < cutoff)
+        .map((resource) => resource.public_id)
+
+      // The Admin API deletes at most 100 public ids per call
+      for (let i = 0; i < expired.length; i += 100) {
+        await cloudinary.api.delete_resources(expired.slice(i, i + 100), {
+          resource_type: RESOURCE_TYPE,
+        })
+      }
+      deleted += expired.length
+      nextCursor = page.next_cursor
+    } while (nextCursor)
+
+    return deleted
+  }
+}
@@ -0,0 +1,48 @@
+import 'server-only'
+
+import { CloudinaryStorage } from './cloudinary'
+import { LocalStorage } from './local'
+import { S3Storage } from './s3'
+
+export interface AudioStorage {
+  /** Stores `buffer` under `key` and returns a URL the browser can play. */
+  upload(key: string, buffer: Buffer, contentType: string): Promise<string>
+  /** Deletes objects under `prefix` created before `cutoff`; returns the count. */
+  deleteOlderThan(prefix: string, cutoff: Date): Promise<number>
+}
+
+export const AUDIO_PREFIX = 'voice_agent/'
+
+const DEFAULT_RETENTION_DAYS = 7
+
+let storage: AudioStorage | null = null
+
+/**
+ * Picks the backend from `AUDIO_STORAGE` (`cloudinary`, `s3` or `local`).
+ * Defaults to Cloudinary to keep existing deployments working.
+ */
+export function getAudioStorage(): AudioStorage {
+  if (!storage) {
+    const backend = process.env.AUDIO_STORAGE || 'cloudinary'
+
+    switch (backend) {
+      case 'cloudinary':
+        storage = new CloudinaryStorage()
+        break
+      case 's3':
+        storage = new S3Storage()
+        break
+      case 'local':
+        storage = new LocalStorage()
+        break
+      default:
+        throw new Error(`Unknown AUDIO_STORAGE backend: ${backend}`)
+    }
+  }
+  return storage
+}
+
+export function getAudioRetentionDays(): number {
+  const days = Number(process.env.AUDIO_RETENTION_DAYS)
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS
+}
@@ -0,0 +1,76 @@
+import 'server-only'
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises'
+import path from 'path'
+
+import type { AudioStorage } from '.'
+
+export const LOCAL_AUDIO_ROUTE = '/api/audio'
+
+export function getLocalAudioDir(): string {
+  return path.resolve(process.env.LOCAL_AUDIO_STORAGE_DIR || '.data/audio')
+}
+
+/**
+ * Resolves a storage key to a path inside the storage directory, or null if
+ * the key tries to escape it.
+ */
+export function resolveLocalAudioPath(key: string): string | null {
+  const root = getLocalAudioDir()
+  const filePath = path.resolve(root, key)
+  return filePath.startsWith(root + path.sep) ? filePath : null
+}
+
+/**
+ * Writes audio to disk and serves it through `/api/audio/[...key]`. Meant for
+ * single-instance self-hosting; every instance needs the same directory.
+ */
+export class LocalStorage implements AudioStorage {
+  async upload(key: string, buffer: Buffer): Promise<string> {
+    const filePath = resolveLocalAudioPath(key)
+    if (!filePath) {
+      throw new Error(`Invalid audio key: ${key}`)
+    }
+
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, buffer)
+    return `${LOCAL_AUDIO_ROUTE}/${key}`
+  }
+
+  async deleteOlderThan(prefix: string, cutoff: Date): Promise<number> {
+    const dir = resolveLocalAudioPath(prefix)
+    if (!dir) {
+      return 0
+    }
+
+    let entries: string[]
+    try {
+      entries = await readdir(dir)
+    } catch {
+      return 0
+    }
+
+    let deleted = 0
+    for (const entry of entries) {
+      const filePath = path.join(dir, entry)
+      const stats = await stat(filePath)
+      if (stats.isFile() && stats.mtime < cutoff) {
+        await rm(filePath)
+        deleted += 1
+      }
+    }
+    return deleted
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const filePath = resolveLocalAudioPath(key)
+    if (!filePath) {
+      return null
+    }
+    try {
+      return await readFile(filePath)
+    } catch {
+      return null
+    }
+  }
+}
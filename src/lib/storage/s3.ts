@@ -0,0 +1,102 @@
+import 'server-only'
+
+import {
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+
+import type { AudioStorage } from '.'
+
+/**
+ * Works with AWS S3 and S3-compatible servers such as MinIO. Objects must be
+ * publicly readable through `S3_PUBLIC_URL` (or the endpoint/bucket URL).
+ */
+export class S3Storage implements AudioStorage {
+  private client: S3Client
+  private bucket: string
+  private publicUrl: string
+
+  constructor() {
+    const bucket = process.env.S3_BUCKET
+    if (!bucket) {
+      throw new Error('S3_BUCKET is required when AUDIO_STORAGE=s3')
+    }
+
+    const region = process.env.S3_REGION || 'us-east-1'
+    const endpoint = process.env.S3_ENDPOINT
+    const forcePathStyle =
+      process.env.S3_FORCE_PATH_STYLE === 'true' || !!endpoint
+
+    this.bucket = bucket
+    this.client = new S3Client({
+      region,
+      endpoint,
+      forcePathStyle,
+      credentials:
+        process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: process.env.S3_ACCESS_KEY_ID,
+              secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    })
+
+    const defaultUrl = endpoint
+      ? `${endpoint.replace(/\/+$/, '')}/${bucket}`
+      : `https://${bucket}.s3.${region}.amazonaws.com`
+    this.publicUrl = (process.env.S3_PUBLIC_URL || defaultUrl).replace(
+      /\/+$/,
+      ''
+    )
+  }
+
+  async upload(
+    key: string,
+    buffer: Buffer,
+    contentType: string
+  ): Promise<string> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: buffer,
+        ContentType: contentType,
+      })
+    )
+    return `${this.publicUrl}/${key}`
+  }
+
+  async deleteOlderThan(prefix: string, cutoff: Date): Promise<number> {
+    let deleted = 0
+    let continuationToken: string | undefined
+
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      )
+
+      const expired = (page.Contents ?? [])
+        .filter((object) => object.LastModified && object.LastModified < cutoff)
+        .map((object) => ({ Key: object.Key! }))
+
+      if (expired.length > 0) {
+        await this.client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.bucket,
+            Delete: { Objects: expired, Quiet: true },
+          })
+        )
+      }
+      deleted += expired.length
+      continuationToken = page.NextContinuationToken
+    } while (continuationToken)
+
+    return deleted
+  }
+}
@@ -0,0 +1,19 @@
+import 'server-only'
+
+import {
+  CallClosedCaptionsStartedEvent,
+  CallTranscriptionStartedEvent,
+} from '@stream-io/node-sdk'
+
+import { ensureGeminiSessionForMeeting } from '../meeting'
+import { WebhookHandler } from '../registry'
+
+export const captionsStartedHandler: WebhookHandler<
+  CallClosedCaptionsStartedEvent | CallTranscriptionStartedEvent
+> = {
+  types: ['call.closed_captions_started', 'call.transcription_started'],
+  async handle(_event, { meetingId, log }) {
+    const ready = await ensureGeminiSessionForMeeting(meetingId)
+    log('ensure session for', meetingId, 'ready?', ready)
+  },
+}
@@ -0,0 +1,87 @@
+import 'server-only'
+
+import { geminiVoiceService } from '@/lib/gemini-voice'
+
+import { ensureGeminiSessionForMeeting } from '../meeting'
+import { WebhookHandler } from '../registry'
+
+interface ClosedCaptionPayload {
+  user?: { id?: string }
+  closed_caption?: { user_id?: string }
+  speaker_id?: string
+}
+
+function extractCaptionText(obj: unknown): string | null {
+  try {
+    if (!obj || typeof obj !== 'object') return null
+    const o = obj as Record<string, unknown>
+    // Direct known locations
+    const cc = (o.closed_caption || o.caption) as
+      | Record<string, unknown>
+      | undefined
+    if (cc) {
+      const direct = cc.text || cc.caption || cc.content
+      if (typeof direct === 'string' && direct.trim().length > 0) return direct
+      // Some providers nest inside payload or data
+      const payload = (cc.payload || cc.data) as
+        | Record<string, unknown>
+        | undefined
+      if (payload) {
+        const pText = payload.text || payload.caption || payload.content
+        if (typeof pText === 'string' && pText.trim().length > 0) return pText
+      }
+    }
+    // Fallback: shallow scan for stringy text-like fields
+    for (const [k, v] of Object.entries(o)) {
+      if (
+        typeof v === 'string' &&
+        ['text', 'caption', 'content'].includes(k) &&
+        v.trim().length > 0
+      ) {
+        return v
+      }
+      if (v && typeof v === 'object') {
+        const inner = extractCaptionText(v)
+        if (inner) return inner
+      }
+    }
+  } catch {}
+  return null
+}
+
+// Captions feed the live conversation, so they skip the Inngest round trip
+export const closedCaptionHandler: WebhookHandler<ClosedCaptionPayload> = {
+  types: ['call.closed_caption'],
+  inline: true,
+  async handle(event, { meetingId, log, warn, defer }) {
+    // Ensure session exists (lazy create)
+    const ready = await ensureGeminiSessionForMeeting(meetingId)
+    if (!ready) {
+      warn('could not ensure session for', meetingId)
+      return
+    }
+
+    const text: string | null = extractCaptionText(event)
+    const speakerId: string =
+      event.user?.id ||
+      event.closed_caption?.user_id ||
+      event.speaker_id ||
+      'user'
+
+    if (!text || text.trim().length === 0) {
+      log('empty text, payload keys:', Object.keys(event || {}))
+      return
+    }
+
+    log('→ queue:', text.slice(0, 120))
+    const queued = await geminiVoiceService.enqueueTranscription(
+      meetingId,
+      text,
+      speakerId
+    )
+    // The debounced turn runs after Stream has its response
+    if (queued) {
+      defer(() => geminiVoiceService.drainTranscriptions(meetingId))
+    }
+  },
+}
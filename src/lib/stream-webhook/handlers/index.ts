@@ -0,0 +1,20 @@
+import 'server-only'
+
+import { registerWebhookHandler } from '../registry'
+
+import { captionsStartedHandler } from './captions-started'
+import { closedCaptionHandler } from './closed-caption'
+import { recordingReadyHandler } from './recording-ready'
+import { sessionEndedHandler } from './session-ended'
+import { sessionParticipantLeftHandler } from './session-participant-left'
+import { sessionStartedHandler } from './session-started'
+import { transcriptionReadyHandler } from './transcription-ready'
+
+// New Stream events only need a handler module and an entry here
+registerWebhookHandler(sessionStartedHandler)
+registerWebhookHandler(sessionParticipantLeftHandler)
+registerWebhookHandler(sessionEndedHandler)
+registerWebhookHandler(transcriptionReadyHandler)
+registerWebhookHandler(recordingReadyHandler)
+registerWebhookHandler(closedCaptionHandler)
+registerWebhookHandler(captionsStartedHandler)
@@ -0,0 +1,21 @@
+import 'server-only'
+
+import { eq } from 'drizzle-orm'
+import { CallRecordingReadyEvent } from '@stream-io/node-sdk'
+
+import { db } from '@/db'
+import { meetings } from '@/db/schema'
+
+import { WebhookHandler } from '../registry'
+
+export const recordingReadyHandler: WebhookHandler<CallRecordingReadyEvent> = {
+  types: ['call.recording_ready'],
+  async handle(event, { meetingId }) {
+    await db
+      .update(meetings)
+      .set({
+        recordingUrl: event.call_recording.url,
+      })
+      .where(eq(meetings.id, meetingId))
+  },
+}
@@ -0,0 +1,24 @@
+import 'server-only'
+
+import { CallSessionEndedEvent } from '@stream-io/node-sdk'
+
+import { geminiVoiceService } from '@/lib/gemini-voice'
+import { transitionMeetingStatus } from '@/modules/meetings/server/status'
+import { MeetingStatus } from '@/modules/meetings/types'
+
+import { WebhookHandler } from '../registry'
+
+export const sessionEndedHandler: WebhookHandler<CallSessionEndedEvent> = {
+  types: ['call.session_ended'],
+  async handle(_event, { meetingId }) {
+    // End Gemini voice session
+    await geminiVoiceService.endSession(meetingId)
+
+    // Only an active meeting moves on; repeated end events are a no-op
+    await transitionMeetingStatus(meetingId, MeetingStatus.Processing, {
+      actor: { type: 'system' },
+      cause: 'call.session_ended',
+      set: { endedAt: new Date() },
+    })
+  },
+}
@@ -0,0 +1,14 @@
+import 'server-only'
+
+import { CallSessionParticipantLeftEvent } from '@stream-io/node-sdk'
+
+import { WebhookHandler } from '../registry'
+
+export const sessionParticipantLeftHandler: WebhookHandler<CallSessionParticipantLeftEvent> =
+  {
+    types: ['call.session_participant_left'],
+    async handle(_event, { meetingId, log }) {
+      // Do not end session; wait for full call.session_ended
+      log('keeping session alive for', meetingId)
+    },
+  }
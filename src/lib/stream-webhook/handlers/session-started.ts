@@ -0,0 +1,99 @@
+import 'server-only'
+
+import { NonRetriableError } from 'inngest'
+import { CallSessionStartedEvent } from '@stream-io/node-sdk'
+
+import { streamVideo } from '@/lib/stream-video'
+import { geminiVoiceService } from '@/lib/gemini-voice'
+import { getMeetingAgents } from '@/modules/meetings/server/agents'
+import { transitionMeetingStatus } from '@/modules/meetings/server/status'
+import { MeetingStatus } from '@/modules/meetings/types'
+
+import { upsertAgentUser } from '../meeting'
+import { WebhookHandler } from '../registry'
+
+export const sessionStartedHandler: WebhookHandler<CallSessionStartedEvent> = {
+  types: ['call.session_started'],
+  async handle(_event, { meetingId, log, warn }) {
+    const result = await transitionMeetingStatus(
+      meetingId,
+      MeetingStatus.Active,
+      {
+        actor: { type: 'system' },
+        cause: 'call.session_started',
+        set: { startedAt: new Date() },
+      }
+    )
+
+    // Rejoining an active meeting (or a repeated event) must not restart it
+    if (
+      !result.ok &&
+      result.reason === 'invalid_transition' &&
+      result.current === MeetingStatus.Active
+    ) {
+      log('Meeting already active, nothing to do')
+      return
+    }
+
+    if (!result.ok) {
+      throw new NonRetriableError(
+        result.reason === 'not_found'
+          ? 'Meeting not found'
+          : `Meeting cannot start from ${result.current}`
+      )
+    }
+
+    const existingMeeting = result.meeting
+
+    const meetingAgentList = await getMeetingAgents(existingMeeting)
+    const [leadAgent] = meetingAgentList
+
+    if (!leadAgent) {
+      throw new NonRetriableError('Agent not found')
+    }
+
+    const call = streamVideo.video.call('default', meetingId)
+    try {
+      for (const agent of meetingAgentList) {
+        try {
+          await upsertAgentUser(agent)
+        } catch (e1) {
+          warn('upsertUsers retry after error:', e1)
+          await new Promise((r) => setTimeout(r, 500))
+          await upsertAgentUser(agent)
+        }
+      }
+
+      // Join agent visibly via OpenAI realtime (silent) if key present
+      if (process.env.OPENAI_API_KEY) {
+        try {
+          const realtimeClient = await streamVideo.video.connectOpenAi({
+            call,
+            openAiApiKey: process.env.OPENAI_API_KEY!,
+            agentUserId: leadAgent.id,
+          })
+
+          // Make sure OpenAI agent stays silent; Gemini handles answers
+          await realtimeClient.updateSession({
+            instructions:
+              'You are a silent listener. Do not respond or speak. Gemini will provide responses.',
+          })
+        } catch (err) {
+          warn('OpenAI join failed (continuing without it):', err)
+        }
+      }
+
+      // Start Gemini session (actual brain + optional TTS)
+      await geminiVoiceService.startSession(call, {
+        agentIds: meetingAgentList.map((agent) => agent.id),
+        turnPolicy: existingMeeting.turnPolicy,
+      })
+
+      log(
+        `Agents ${meetingAgentList.map((agent) => agent.id).join(', ')} ready to process transcriptions`
+      )
+    } catch (error) {
+      console.error('FAILED TO CONNECT GEMINI VOICE AGENT:', error)
+    }
+  },
+}
@@ -0,0 +1,69 @@
+import 'server-only'
+
+import { eq } from 'drizzle-orm'
+import { NonRetriableError } from 'inngest'
+import { CallTranscriptionReadyEvent } from '@stream-io/node-sdk'
+
+import { db } from '@/db'
+import { meetings } from '@/db/schema'
+import { inngest } from '@/inngest/client'
+import { geminiVoiceService } from '@/lib/gemini-voice'
+import {
+  fetchStreamTranscript,
+  saveTranscriptSegments,
+} from '@/modules/meetings/server/transcript'
+
+import { WebhookHandler } from '../registry'
+
+export const transcriptionReadyHandler: WebhookHandler<CallTranscriptionReadyEvent> =
+  {
+    types: ['call.transcription_ready'],
+    async handle(event, { meetingId, log }) {
+      const [updatedMeeting] = await db
+        .update(meetings)
+        .set({
+          transcriptUrl: event.call_transcription.url,
+        })
+        .where(eq(meetings.id, meetingId))
+        .returning()
+
+      if (!updatedMeeting) {
+        throw new NonRetriableError('Meeting not found')
+      }
+
+      // Fetch once while the link is fresh; everything downstream reads the stored segments
+      const transcript = await fetchStreamTranscript(event.call_transcription.url)
+      log('transcript lines:', transcript.length)
+      await saveTranscriptSegments(meetingId, transcript)
+
+      const hasSession = await geminiVoiceService.hasSession(meetingId)
+      log('has session?', hasSession)
+      // Forward the transcript to Gemini if a voice session exists
+      if (hasSession) {
+        try {
+          for (const item of transcript) {
+            if (item.text && item.speaker_id) {
+              log('forwarding to Gemini:', item.text.slice(0, 80))
+              await geminiVoiceService.enqueueTranscription(
+                meetingId,
+                item.text,
+                item.speaker_id
+              )
+            }
+          }
+          await geminiVoiceService.drainTranscriptions(meetingId)
+        } catch (error) {
+          console.error('Error processing transcription with Gemini:', error)
+        }
+      }
+
+      await inngest.send({
+        id: `meetings-processing-${updatedMeeting.id}`,
+        name: 'meetings/processing',
+        data: {
+          meetingId: updatedMeeting.id,
+          transcriptUrl: updatedMeeting.transcriptUrl,
+        },
+      })
+    },
+  }
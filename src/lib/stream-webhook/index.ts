@@ -0,0 +1,161 @@
+import 'server-only'
+
+import { createHash } from 'crypto'
+import { and, count, desc, eq, gte, not, sql } from 'drizzle-orm'
+import { NonRetriableError } from 'inngest'
+
+import { db } from '@/db'
+import { webhookEvents } from '@/db/schema'
+import { inngest } from '@/inngest/client'
+
+import { resolveMeetingId } from './meeting'
+import { getWebhookHandler, WebhookContext } from './registry'
+import './handlers'
+
+export { getWebhookHandler } from './registry'
+
+/**
+ * Stores a verified payload. `duplicate` is set when the same delivery was
+ * already recorded, i.e. Stream retried it.
+ */
+export async function recordWebhookEvent(
+  body: string,
+  payload: Record<string, unknown>,
+  deliveryId: string | null
+) {
+  const eventId =
+    deliveryId || createHash('sha256').update(body).digest('hex')
+
+  const [recorded] = await db
+    .insert(webhookEvents)
+    .values({
+      eventId,
+      type: typeof payload.type === 'string' ? payload.type : 'unknown',
+      payload,
+    })
+    .onConflictDoNothing({ target: webhookEvents.eventId })
+    .returning()
+
+  if (recorded) {
+    return { webhookEvent: recorded, duplicate: false }
+  }
+
+  const [existing] = await db
+    .select()
+    .from(webhookEvents)
+    .where(eq(webhookEvents.eventId, eventId))
+
+  return { webhookEvent: existing, duplicate: true }
+}
+
+export async function dispatchWebhookEvent(webhookEventId: string) {
+  await inngest.send({
+    // Inngest drops sends with an id it has already seen
+    id: `webhook-${webhookEventId}`,
+    name: 'webhook/received',
+    data: { webhookEventId },
+  })
+}
+
+/**
+ * Runs the handler for a recorded event, tracking attempts and outcome on the
+ * row. Already processed events are skipped so Inngest replays are harmless.
+ * Without `defer`, deferred work runs right after the handler.
+ */
+export async function processWebhookEvent(
+  webhookEventId: string,
+  defer?: WebhookContext['defer']
+) {
+  const [webhookEvent] = await db
+    .update(webhookEvents)
+    .set({
+      status: 'processing',
+      attempts: sql`${webhookEvents.attempts} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(webhookEvents.id, webhookEventId),
+        not(eq(webhookEvents.status, 'processed'))
+      )
+    )
+    .returning()
+
+  if (!webhookEvent) {
+    console.log('[Webhook] event already processed:', webhookEventId)
+    return
+  }
+
+  const deferred: Array<() => Promise<unknown>> = []
+
+  try {
+    const handler = getWebhookHandler(webhookEvent.type)
+    if (!handler) {
+      throw new NonRetriableError(`No handler for ${webhookEvent.type}`)
+    }
+
+    const meetingId = resolveMeetingId(webhookEvent.payload)
+    if (!meetingId) {
+      throw new NonRetriableError('Missing meetingId')
+    }
+
+    const prefix = `[Webhook] ${webhookEvent.type}:`
+    await handler.handle(webhookEvent.payload, {
+      eventType: webhookEvent.type,
+      meetingId,
+      log: (...args) => console.log(prefix, ...args),
+      warn: (...args) => console.warn(prefix, ...args),
+      defer: defer ?? ((task) => deferred.push(task)),
+    })
+
+    await markWebhookEventProcessed(webhookEventId)
+  } catch (error) {
+    await db
+      .update(webhookEvents)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookEvents.id, webhookEventId))
+    throw error
+  }
+
+  for (const task of deferred) {
+    await task()
+  }
+}
+
+export async function markWebhookEventProcessed(webhookEventId: string) {
+  await db
+    .update(webhookEvents)
+    .set({
+      status: 'processed',
+      error: null,
+      processedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(webhookEvents.id, webhookEventId))
+}
+
+export async function markWebhookEventUnhandled(webhookEventId: string) {
+  await db
+    .update(webhookEvents)
+    .set({ status: 'unhandled', updatedAt: new Date() })
+    .where(eq(webhookEvents.id, webhookEventId))
+}
+
+/** Counts events without a registered handler received since `since`. */
+export async function getUnhandledWebhookEventCounts(since: Date) {
+  return db
+    .select({ type: webhookEvents.type, count: count() })
+    .from(webhookEvents)
+    .where(
+      and(
+        eq(webhookEvents.status, 'unhandled'),
+        gte(webhookEvents.createdAt, since)
+      )
+    )
+    .groupBy(webhookEvents.type)
+    .orderBy(desc(count()))
+}
@@ -0,0 +1,100 @@
+import 'server-only'
+
+import { eq } from 'drizzle-orm'
+
+import { db } from '@/db'
+import { meetings } from '@/db/schema'
+import { streamVideo } from '@/lib/stream-video'
+import { geminiVoiceService } from '@/lib/gemini-voice'
+import { generatedAvatarUri } from '@/lib/avatar'
+import { getMeetingAgents } from '@/modules/meetings/server/agents'
+
+interface MeetingScopedPayload {
+  call_cid?: string
+  call?: { cid?: string; custom?: { meetingId?: unknown } }
+}
+
+/**
+ * Meetings are created with the call id set to the meeting id and the same id
+ * in `call.custom.meetingId`, so any of those identifies the meeting.
+ */
+export function resolveMeetingId(payload: unknown): string | null {
+  const event = (payload ?? {}) as MeetingScopedPayload
+  const customMeetingId = event.call?.custom?.meetingId
+
+  if (typeof customMeetingId === 'string' && customMeetingId) {
+    return customMeetingId
+  }
+
+  const cid = event.call_cid || event.call?.cid
+  return cid?.split(':')[1] || null
+}
+
+export async function upsertAgentUser(agent: { id: string; name: string }) {
+  await streamVideo.upsertUsers([
+    {
+      id: agent.id,
+      name: agent.name,
+      role: 'user',
+      image: generatedAvatarUri({
+        seed: agent.name,
+        variant: 'botttsNeutral',
+      }),
+    },
+  ])
+}
+
+export async function ensureGeminiSessionForMeeting(
+  meetingId: string
+): Promise<boolean> {
+  try {
+    if (await geminiVoiceService.hasSession(meetingId)) return true
+
+    const [meeting] = await db
+      .select()
+      .from(meetings)
+      .where(eq(meetings.id, meetingId))
+    if (!meeting) {
+      console.warn(
+        '[Webhook] ensureGeminiSession: meeting not found',
+        meetingId
+      )
+      return false
+    }
+
+    const meetingAgentList = await getMeetingAgents(meeting)
+    if (meetingAgentList.length === 0) {
+      console.warn(
+        '[Webhook] ensureGeminiSession: agent not found',
+        meeting.agentId
+      )
+      return false
+    }
+
+    const call = streamVideo.video.call('default', meetingId)
+
+    for (const agent of meetingAgentList) {
+      try {
+        await upsertAgentUser(agent)
+      } catch (e) {
+        console.warn(
+          '[Webhook] ensureGeminiSession: upsertUsers failed (continuing):',
+          e
+        )
+      }
+    }
+
+    await geminiVoiceService.startSession(call, {
+      agentIds: meetingAgentList.map((agent) => agent.id),
+      turnPolicy: meeting.turnPolicy,
+    })
+    console.log(
+      '[Webhook] ensureGeminiSession: started Gemini session for',
+      meetingId
+    )
+    return true
+  } catch (e) {
+    console.error('[Webhook] ensureGeminiSession error:', e)
+    return false
+  }
+}
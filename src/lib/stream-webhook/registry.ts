@@ -0,0 +1,38 @@
+import 'server-only'
+
+export interface WebhookContext {
+  eventType: string
+  meetingId: string
+  log: (...args: unknown[]) => void
+  warn: (...args: unknown[]) => void
+  /**
+   * Runs `task` once the event has been acknowledged. Inline handlers use this
+   * to respond to Stream first; under Inngest it simply runs afterwards.
+   */
+  defer: (task: () => Promise<unknown>) => void
+}
+
+export interface WebhookHandler<TEvent = unknown> {
+  /** Stream event type(s) this handler owns, e.g. `call.session_started` */
+  types: string[]
+  /** Handle in the webhook request instead of dispatching to Inngest */
+  inline?: boolean
+  handle(event: TEvent, ctx: WebhookContext): Promise<void>
+}
+
+const handlers = new Map<string, WebhookHandler>()
+
+export function registerWebhookHandler<TEvent>(
+  handler: WebhookHandler<TEvent>
+) {
+  for (const type of handler.types) {
+    if (handlers.has(type)) {
+      throw new Error(`A webhook handler for ${type} is already registered`)
+    }
+    handlers.set(type, handler as WebhookHandler)
+  }
+}
+
+export function getWebhookHandler(type: string): WebhookHandler | null {
+  return handlers.get(type) ?? null
+}
@@ -0,0 +1,108 @@
+import 'server-only'
+
+import * as tts from '@google-cloud/text-to-speech'
+
+import { audioEncoding } from '@/db/schema'
+
+export interface VoiceSettings {
+  languageCode: string
+  voiceName: string
+  speakingRate: number
+  pitch: number
+  audioEncoding: (typeof audioEncoding.enumValues)[number]
+}
+
+export const AUDIO_FORMATS: Record<
+  VoiceSettings['audioEncoding'],
+  { extension: string; mimeType: string }
+> = {
+  LINEAR16: { extension: 'wav', mimeType: 'audio/wav' },
+  MP3: { extension: 'mp3', mimeType: 'audio/mpeg' },
+  OGG_OPUS: { extension: 'ogg', mimeType: 'audio/ogg' },
+}
+
+let ttsClient: tts.TextToSpeechClient | null = null
+
+function getGoogleCredentials() {
+  if (process.env.GOOGLE_CLIENT_EMAIL && process.env.GOOGLE_PRIVATE_KEY) {
+    return {
+      client_email: process.env.GOOGLE_CLIENT_EMAIL,
+      private_key: process.env.GOOGLE_PRIVATE_KEY.replace(/\\n/g, '\n'),
+      project_id: process.env.GOOGLE_PROJECT_ID,
+    }
+  }
+
+  if (process.env.GOOGLE_CLOUD_CREDENTIALS_BASE64) {
+    try {
+      const decoded = Buffer.from(
+        process.env.GOOGLE_CLOUD_CREDENTIALS_BASE64,
+        'base64'
+      ).toString('utf-8')
+      return JSON.parse(decoded)
+    } catch (error) {
+      console.error('[TTS] Failed to parse Google credentials:', error)
+      return null
+    }
+  }
+  return null
+}
+
+function getTTSClient() {
+  if (!ttsClient) {
+    const credentials = getGoogleCredentials()
+
+    if (credentials) {
+      ttsClient = new tts.TextToSpeechClient({
+        credentials: {
+          client_email: credentials.client_email,
+          private_key: credentials.private_key,
+        },
+        projectId: credentials.project_id,
+      })
+    }
+    else if (process.env.GOOGLE_CLOUD_KEYFILE) {
+      ttsClient = new tts.TextToSpeechClient({
+        keyFilename: process.env.GOOGLE_CLOUD_KEYFILE,
+      })
+    }
+  }
+  return ttsClient
+}
+
+/**
+ * Synthesizes `text` with the given voice. Returns null when no Google
+ * credentials are configured, so callers can fall back to text-only replies.
+ */
+export async function synthesizeSpeech(
+  text: string,
+  voice: VoiceSettings
+): Promise<Buffer | null> {
+  const client = getTTSClient()
+  if (!client) {
+    return null
+  }
+
+  const request: tts.protos.google.cloud.texttospeech.v1.ISynthesizeSpeechRequest =
+    {
+      input: { text },
+      voice: {
+        languageCode: voice.languageCode,
+        name: voice.voiceName,
+      },
+      audioConfig: {
+        audioEncoding: voice.audioEncoding,
+        speakingRate: voice.speakingRate,
+        pitch: voice.pitch,
+        // The call audio pipeline expects 16kHz PCM; compressed formats keep their native rate
+        sampleRateHertz: voice.audioEncoding === 'LINEAR16' ? 16000 : undefined,
+      },
+    }
+
+  const [response] = await client.synthesizeSpeech(request)
+
+  if (!response.audioContent) {
+    throw new Error('Failed to generate audio from text')
+  }
+
+  return Buffer.from(response.audioContent)
+}
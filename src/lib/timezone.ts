@@ -0,0 +1,79 @@
+// Timezone math via Intl, so schedules work without a timezone library
+
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value)
+
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  )
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * Converts a wall-clock date (`yyyy-MM-dd`) and time (`HH:mm`) in `timeZone`
+ * to the matching instant.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number)
+  const [hour, minute] = time.split(":").map(Number)
+  const guess = Date.UTC(year, month - 1, day, hour, minute)
+
+  const offset = getTimeZoneOffsetMs(new Date(guess), timeZone)
+  const result = guess - offset
+
+  // Re-check in case the guess and the result sit on different sides of a DST change
+  const correctedOffset = getTimeZoneOffsetMs(new Date(result), timeZone)
+  return new Date(guess - correctedOffset)
+}
+
+/** Splits an instant into the wall-clock date and time seen in `timeZone`. */
+export function utcToZonedTime(instant: Date | string, timeZone: string) {
+  const value = new Date(instant)
+  const shifted = new Date(value.getTime() + getTimeZoneOffsetMs(value, timeZone))
+  const iso = shifted.toISOString()
+
+  return {
+    date: iso.slice(0, 10),
+    time: iso.slice(11, 16),
+  }
+}
+
+export function formatInTimeZone(instant: Date | string, timeZone: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZoneName: "short",
+  }).format(new Date(instant))
+}
+
+export function getLocalTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/** Whether Intl accepts `timeZone`; every helper here throws on unknown zones. */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
@@ -13,3 +13,15 @@ export function formatDuration(seconds: number) {
         units: ["h", "m", "s"]
     })
 }
+
+// Formats a millisecond offset into the call as m:ss (or h:mm:ss)
+export function formatTimestamp(milliseconds: number) {
+    const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000))
+    const hours = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    const seconds = String(totalSeconds % 60).padStart(2, "0")
+
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+        : `${minutes}:${seconds}`
+}
@@ -0,0 +1,48 @@
+import { AgentTool, AudioEncoding, LLMProvider } from "./types"
+
+export const DEFAULT_AGENT_VOICE = {
+    languageCode: "en-US",
+    voiceName: "en-US-Neural2-F",
+    speakingRate: 1,
+    pitch: 0,
+    audioEncoding: AudioEncoding.Linear16,
+}
+
+export const AUDIO_ENCODING_LABELS: Record<AudioEncoding, string> = {
+    [AudioEncoding.Linear16]: "WAV (LINEAR16)",
+    [AudioEncoding.Mp3]: "MP3",
+    [AudioEncoding.OggOpus]: "Ogg Opus",
+}
+
+export const DEFAULT_AGENT_MODEL = {
+    llmProvider: LLMProvider.Gemini,
+    llmModel: "gemini-2.0-flash-exp",
+}
+
+export const LLM_PROVIDER_LABELS: Record<LLMProvider, string> = {
+    [LLMProvider.Gemini]: "Google Gemini",
+    [LLMProvider.OpenAI]: "OpenAI",
+    [LLMProvider.OpenAICompatible]: "OpenAI-compatible (local)",
+}
+
+export const LLM_MODEL_PLACEHOLDERS: Record<LLMProvider, string> = {
+    [LLMProvider.Gemini]: "e.g. gemini-2.0-flash-exp",
+    [LLMProvider.OpenAI]: "e.g. gpt-4o-mini",
+    [LLMProvider.OpenAICompatible]: "e.g. llama3.1",
+}
+
+export const AGENT_TOOL_LABELS: Record<AgentTool, string> = {
+    [AgentTool.CreateFollowUpMeeting]: "Schedule follow-up meetings",
+    [AgentTool.LookupMeetingSummary]: "Look up past meeting summaries",
+    [AgentTool.TakeNote]: "Take notes",
+    [AgentTool.SetReminder]: "Set email reminders",
+    [AgentTool.CallHttpEndpoint]: "Call an HTTP endpoint",
+}
+
+export const AGENT_TOOL_DESCRIPTIONS: Record<AgentTool, string> = {
+    [AgentTool.CreateFollowUpMeeting]: "Books another meeting with this agent when asked",
+    [AgentTool.LookupMeetingSummary]: "Searches your completed meetings and reads back their summaries",
+    [AgentTool.TakeNote]: "Saves notes to the meeting while you talk",
+    [AgentTool.SetReminder]: "Emails you a reminder at the time you ask for",
+    [AgentTool.CallHttpEndpoint]: "Sends a JSON request to your own service and uses the reply",
+}
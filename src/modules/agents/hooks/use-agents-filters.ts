@@ -1,11 +1,15 @@
-import { parseAsInteger, parseAsString, useQueryStates } from "nuqs"
+import { parseAsInteger, parseAsString, parseAsStringEnum, useQueryStates } from "nuqs"
 
 import { DEFAULT_PAGE } from "@/constant"
 
+import { AgentSortBy, SortDirection } from "../types"
+
 export const useAgentFilters = () => {
     return useQueryStates({
         search: parseAsString.withDefault("").withOptions({clearOnDefault: true}),
         page: parseAsInteger.withDefault(DEFAULT_PAGE).withOptions({clearOnDefault: true}),
+        sortBy: parseAsStringEnum(Object.values(AgentSortBy)).withDefault(AgentSortBy.CreatedAt).withOptions({clearOnDefault: true}),
+        sortDirection: parseAsStringEnum(Object.values(SortDirection)).withDefault(SortDirection.Desc).withOptions({clearOnDefault: true}),
     })
 }
 
@@ -1,10 +1,14 @@
-import { createLoader, parseAsInteger, parseAsString } from "nuqs/server"
+import { createLoader, parseAsInteger, parseAsString, parseAsStringEnum } from "nuqs/server"
 
 import { DEFAULT_PAGE } from "@/constant"
 
+import { AgentSortBy, SortDirection } from "./types"
+
 export const filterSearchParams = {
         search: parseAsString.withDefault("").withOptions({clearOnDefault: true}),
         page: parseAsInteger.withDefault(DEFAULT_PAGE).withOptions({clearOnDefault: true}),
+        sortBy: parseAsStringEnum(Object.values(AgentSortBy)).withDefault(AgentSortBy.CreatedAt).withOptions({clearOnDefault: true}),
+        sortDirection: parseAsStringEnum(Object.values(SortDirection)).withDefault(SortDirection.Desc).withOptions({clearOnDefault: true}),
 }
 
 export const loadSearchParams = createLoader(filterSearchParams)
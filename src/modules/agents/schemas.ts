@@ -1,11 +1,50 @@
 import {z} from "zod"
 
-export const agentsInsertSchema = z.object({
+import { AgentTool, AudioEncoding, LLMProvider } from "./types"
+
+export const agentVoiceSchema = z.object({
+    languageCode: z.string().min(1, {message: "Language is required"}),
+    voiceName: z.string().min(1, {message: "Voice is required"}),
+    speakingRate: z.number().min(0.25).max(4),
+    pitch: z.number().min(-20).max(20),
+    audioEncoding: z.enum(AudioEncoding),
+})
+
+export const agentModelSchema = z.object({
+    llmProvider: z.enum(LLMProvider),
+    llmModel: z.string().min(1, {message: "Model is required"}),
+})
+
+export const agentToolsSchema = z.object({
+    enabledTools: z.array(z.enum(AgentTool)),
+    httpToolUrl: z.url({protocol: /^https?$/, message: "Enter a valid http(s) URL"}).or(z.literal("")),
+    httpToolDescription: z.string().trim().max(500, {message: "Description is too long"}),
+})
+
+const agentsBaseSchema = z.object({
     name: z.string().min(1, {message: "Name is required"}),
     instructions: z.string().min(1, {message: "Instructions are required"}),  
-})
+}).extend(agentVoiceSchema.shape).extend(agentModelSchema.shape).extend(agentToolsSchema.shape)
+
+const requireHttpToolUrl = (
+    values: z.infer<typeof agentToolsSchema>,
+    ctx: z.RefinementCtx,
+) => {
+    if (values.enabledTools.includes(AgentTool.CallHttpEndpoint) && !values.httpToolUrl) {
+        ctx.addIssue({
+            code: "custom",
+            path: ["httpToolUrl"],
+            message: "Endpoint URL is required for the HTTP tool",
+        })
+    }
+}
 
-export const agentsUpdateSchema = agentsInsertSchema.extend({
+export const agentsInsertSchema = agentsBaseSchema.superRefine(requireHttpToolUrl)
+
+export const agentsUpdateSchema = agentsBaseSchema.extend({
     id: z.string().min(1, {message: "Id is required"})
-})
+}).superRefine(requireHttpToolUrl)
 
+export const agentsPreviewVoiceSchema = agentVoiceSchema.extend({
+    name: z.string(),
+})
@@ -1,11 +1,16 @@
 import {z} from "zod"
-import {and, count, desc, eq, getTableColumns, ilike, sql} from "drizzle-orm"
+import {and, asc, count, desc, eq, getTableColumns, gte, ilike, max, sql} from "drizzle-orm"
 import { db } from "@/db";
-import { agents } from "@/db/schema";
+import { agents, meetings } from "@/db/schema";
 import {createTRPCRouter, protectedProcedure} from "@/trpc/init"
 import { TRPCError } from "@trpc/server";
-import { agentsInsertSchema, agentsUpdateSchema } from "../schemas";
+import { agentsInsertSchema, agentsPreviewVoiceSchema, agentsUpdateSchema } from "../schemas";
+import { AgentSortBy, SortDirection } from "../types";
+import { AUDIO_FORMATS, synthesizeSpeech } from "@/lib/text-to-speech";
 import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, MIN_PAGE_SIZE } from "@/constant";
+import { copyAgentKnowledge } from "@/modules/knowledge/server/ingest";
+
+const DEFAULT_ANALYTICS_WEEKS = 12
 
 
 export const agentsRouter = createTRPCRouter({
@@ -15,7 +20,11 @@ export const agentsRouter = createTRPCRouter({
     .mutation(async ({ctx, input}) => {
       const [updatedAgent] = await db
       .update(agents)
-      .set(input)
+      .set({
+        ...input,
+        httpToolUrl: input.httpToolUrl || null,
+        httpToolDescription: input.httpToolDescription || null,
+      })
       .where(
         and(
           eq(agents.id, input.id),
@@ -57,13 +66,56 @@ export const agentsRouter = createTRPCRouter({
 
     }),
 
+  duplicate: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [existingAgent] = await db
+        .select()
+        .from(agents)
+        .where(
+          and(
+            eq(agents.id, input.id),
+            eq(agents.userId, ctx.auth.user.id)
+          )
+        )
+
+      if(!existingAgent){
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Agent not found"
+        })
+      }
+
+      const [duplicatedAgent] = await db
+        .insert(agents)
+        .values({
+          name: `${existingAgent.name} (copy)`,
+          userId: ctx.auth.user.id,
+          instructions: existingAgent.instructions,
+          languageCode: existingAgent.languageCode,
+          voiceName: existingAgent.voiceName,
+          speakingRate: existingAgent.speakingRate,
+          pitch: existingAgent.pitch,
+          audioEncoding: existingAgent.audioEncoding,
+          llmProvider: existingAgent.llmProvider,
+          llmModel: existingAgent.llmModel,
+          enabledTools: existingAgent.enabledTools,
+          httpToolUrl: existingAgent.httpToolUrl,
+          httpToolDescription: existingAgent.httpToolDescription,
+        })
+        .returning()
+
+      await copyAgentKnowledge(existingAgent.id, duplicatedAgent.id)
+
+      return duplicatedAgent
+    }),
+
   getOne: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ input, ctx }) => {
       const [existingAgent] = await db
         .select({
-          // TODO: Change to actual count
-          meetingCount: sql<number>`5`,
+          meetingCount: db.$count(meetings, eq(meetings.agentId, agents.id)),
           ...getTableColumns(agents),
         })
         .from(agents)
@@ -80,6 +132,95 @@ export const agentsRouter = createTRPCRouter({
 
       return existingAgent
     }),
+  getAnalytics: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        weeks: z.number().int().min(1).max(52).default(DEFAULT_ANALYTICS_WEEKS),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const [existingAgent] = await db
+        .select({ id: agents.id })
+        .from(agents)
+        .where(
+          and(
+            eq(agents.id, input.id),
+            eq(agents.userId, ctx.auth.user.id),
+          )
+        )
+
+      if(!existingAgent){
+        throw new TRPCError({code: "NOT_FOUND", message: "Agent not found"})
+      }
+
+      const duration = sql`EXTRACT(EPOCH FROM (${meetings.endedAt} - ${meetings.startedAt}))`
+
+      const [totals] = await db
+        .select({
+          total: count(),
+          completed: sql<number>`count(*) filter (where ${meetings.status} = 'completed')`.mapWith(Number),
+          cancelled: sql<number>`count(*) filter (where ${meetings.status} = 'cancelled')`.mapWith(Number),
+          totalDuration: sql<number>`coalesce(sum(${duration}), 0)`.mapWith(Number),
+          averageDuration: sql<number>`coalesce(avg(${duration}), 0)`.mapWith(Number),
+        })
+        .from(meetings)
+        .where(eq(meetings.agentId, input.id))
+
+      // Monday of the current week, minus the requested number of weeks
+      const startOfWeek = new Date()
+      startOfWeek.setUTCHours(0, 0, 0, 0)
+      startOfWeek.setUTCDate(startOfWeek.getUTCDate() - ((startOfWeek.getUTCDay() + 6) % 7))
+      const since = new Date(startOfWeek)
+      since.setUTCDate(since.getUTCDate() - (input.weeks - 1) * 7)
+
+      const week = sql<string>`to_char(date_trunc('week', ${meetings.createdAt}), 'YYYY-MM-DD')`
+      const weekly = await db
+        .select({
+          week,
+          total: count(),
+          completed: sql<number>`count(*) filter (where ${meetings.status} = 'completed')`.mapWith(Number),
+          cancelled: sql<number>`count(*) filter (where ${meetings.status} = 'cancelled')`.mapWith(Number),
+        })
+        .from(meetings)
+        .where(
+          and(
+            eq(meetings.agentId, input.id),
+            gte(meetings.createdAt, since),
+          )
+        )
+        .groupBy(week)
+        .orderBy(asc(week))
+
+      // Fill the weeks without meetings so the chart has an even axis
+      const meetingsPerWeek = Array.from({ length: input.weeks }, (_, index) => {
+        const weekStart = new Date(since)
+        weekStart.setUTCDate(weekStart.getUTCDate() + index * 7)
+        const key = weekStart.toISOString().slice(0, 10)
+        const row = weekly.find((item) => item.week === key)
+
+        return {
+          week: key,
+          completed: row?.completed ?? 0,
+          cancelled: row?.cancelled ?? 0,
+          other: row ? row.total - row.completed - row.cancelled : 0,
+        }
+      })
+
+      const finished = totals.completed + totals.cancelled
+
+      return {
+        totalMeetings: totals.total,
+        completedMeetings: totals.completed,
+        cancelledMeetings: totals.cancelled,
+        totalDuration: totals.totalDuration,
+        averageDuration: totals.averageDuration,
+        completionRate: finished ? totals.completed / finished : 0,
+        cancellationRate: finished ? totals.cancelled / finished : 0,
+        meetingsPerWeek,
+      }
+    }),
+
   getMany: protectedProcedure
   .input(
     z.object({
@@ -89,39 +230,57 @@ export const agentsRouter = createTRPCRouter({
         .min(MIN_PAGE_SIZE)
         .max(MAX_PAGE_SIZE)
         .default(DEFAULT_PAGE_SIZE),
-      search: z.string().nullish()
+      search: z.string().nullish(),
+      sortBy: z.enum(AgentSortBy).default(AgentSortBy.CreatedAt),
+      sortDirection: z.enum(SortDirection).default(SortDirection.Desc),
     })
   )
   
   .query(async ({ ctx, input }) => {
 
-    const { search, page, pageSize } = input
+    const { search, page, pageSize, sortBy, sortDirection } = input
+
+    const where = and(
+      eq(agents.userId, ctx.auth.user.id),
+      search ? ilike(agents.name, `%${search}%`) : undefined,
+    )
+
+    const meetingCount = db.$count(meetings, eq(meetings.agentId, agents.id))
+    const lastUsedAt = sql<string | null>`(${db
+      .select({ value: max(meetings.startedAt) })
+      .from(meetings)
+      .where(eq(meetings.agentId, agents.id))})`
+
+    const sortColumns = {
+      [AgentSortBy.Name]: sql`lower(${agents.name})`,
+      [AgentSortBy.CreatedAt]: sql`${agents.createdAt}`,
+      [AgentSortBy.MeetingCount]: sql`${meetingCount}`,
+      [AgentSortBy.LastUsedAt]: lastUsedAt,
+    }
+    const sortColumn = sortColumns[sortBy]
 
     const data = await db
       .select({
-        // TODO: Change to actual count
-        meetingCount: sql<number>`1`,
+        meetingCount,
+        lastUsedAt,
         ...getTableColumns(agents),
       })
       .from(agents)
-      .where(
-        and(
-          eq(agents.userId, ctx.auth.user.id),
-          search ? ilike(agents.name, `%${search}%`) : undefined,
-        )
+      .where(where)
+      .orderBy(
+        // Agents that were never used sort last in either direction
+        sortDirection === SortDirection.Asc
+          ? sql`${sortColumn} asc nulls last`
+          : sql`${sortColumn} desc nulls last`,
+        desc(agents.id)
       )
-      .orderBy(desc(agents.createdAt), desc(agents.id))
       .limit(pageSize)
       .offset((page - 1) * pageSize)
 
     const [total] = await db
       .select({ count: count() })
       .from(agents)
-      .where(
-        and(
-
-        )
-      )
+      .where(where)
 
       const totalPages = Math.ceil(total.count / pageSize)
 
@@ -140,6 +299,31 @@ export const agentsRouter = createTRPCRouter({
 
   }),
 
+  previewVoice: protectedProcedure
+    .input(agentsPreviewVoiceSchema)
+    .mutation(async ({ input }) => {
+      const { name, ...voice } = input
+
+      const sampleText = name
+        ? `Hi, I'm ${name}. This is how I will sound in your meetings.`
+        : "Hi there. This is how I will sound in your meetings."
+
+      const audioBuffer = await synthesizeSpeech(sampleText, voice)
+
+      if(!audioBuffer){
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Text-to-speech is not configured",
+        })
+      }
+
+      const { mimeType } = AUDIO_FORMATS[voice.audioEncoding]
+
+      return {
+        audioUri: `data:${mimeType};base64,${audioBuffer.toString("base64")}`,
+      }
+    }),
+
   create: protectedProcedure
     .input(agentsInsertSchema)
     .mutation(async ({ input, ctx }) => {
@@ -147,6 +331,8 @@ export const agentsRouter = createTRPCRouter({
         .insert(agents)
         .values({
           ...input,
+          httpToolUrl: input.httpToolUrl || null,
+          httpToolDescription: input.httpToolDescription || null,
           userId: ctx.auth.user.id,
         })
         .returning()
@@ -6,3 +6,34 @@ export type AgentsGetMany = inferRouterOutputs<AppRouter>["agents"]["getMany"]["
 export type AgentGetOne = inferRouterOutputs<AppRouter>["agents"]["getOne"]
 
 
+export enum AudioEncoding {
+    Linear16 = "LINEAR16",
+    Mp3 = "MP3",
+    OggOpus = "OGG_OPUS",
+}
+
+export enum LLMProvider {
+    Gemini = "gemini",
+    OpenAI = "openai",
+    OpenAICompatible = "openai_compatible",
+}
+
+export enum AgentTool {
+    CreateFollowUpMeeting = "create_follow_up_meeting",
+    LookupMeetingSummary = "lookup_meeting_summary",
+    TakeNote = "take_note",
+    SetReminder = "set_reminder",
+    CallHttpEndpoint = "call_http_endpoint",
+}
+
+export enum AgentSortBy {
+    Name = "name",
+    CreatedAt = "createdAt",
+    MeetingCount = "meetingCount",
+    LastUsedAt = "lastUsedAt",
+}
+
+export enum SortDirection {
+    Asc = "asc",
+    Desc = "desc",
+}
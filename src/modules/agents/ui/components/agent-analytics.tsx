@@ -0,0 +1,111 @@
+import { useQuery } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts"
+
+import { useTRPC } from "@/trpc/client"
+import { formatDuration } from "@/lib/utils"
+import {
+    ChartConfig,
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+} from "@/components/ui/chart"
+
+interface Props {
+    agentId: string
+}
+
+const weeklyChartConfig = {
+    completed: { label: "Completed", color: "var(--chart-2)" },
+    cancelled: { label: "Cancelled", color: "var(--chart-5)" },
+    other: { label: "Other", color: "var(--chart-3)" },
+} satisfies ChartConfig
+
+const outcomeChartConfig = {
+    completed: { label: "Completed", color: "var(--chart-2)" },
+    cancelled: { label: "Cancelled", color: "var(--chart-5)" },
+} satisfies ChartConfig
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`
+
+const StatCard = ({ label, value }: { label: string, value: string }) => (
+    <div className="rounded-lg border px-4 py-3 flex flex-col gap-y-1">
+        <span className="text-sm text-muted-foreground">{label}</span>
+        <span className="text-xl font-medium">{value}</span>
+    </div>
+)
+
+export const AgentAnalytics = ({ agentId }: Props) => {
+    const trpc = useTRPC()
+    const { data } = useQuery(trpc.agents.getAnalytics.queryOptions({ id: agentId }))
+
+    if (!data) return null
+
+    const outcomes = [
+        { outcome: "completed", value: data.completedMeetings, fill: "var(--color-completed)" },
+        { outcome: "cancelled", value: data.cancelledMeetings, fill: "var(--color-cancelled)" },
+    ]
+
+    return (
+        <div className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-5">
+            <p className="text-lg font-medium">Usage</p>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <StatCard label="Total meetings" value={String(data.totalMeetings)} />
+                <StatCard
+                    label="Total duration"
+                    value={data.totalDuration ? formatDuration(data.totalDuration) : "No duration"}
+                />
+                <StatCard
+                    label="Average duration"
+                    value={data.averageDuration ? formatDuration(data.averageDuration) : "No duration"}
+                />
+                <StatCard
+                    label="Completion / cancellation"
+                    value={`${formatRate(data.completionRate)} / ${formatRate(data.cancellationRate)}`}
+                />
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <div className="lg:col-span-2 flex flex-col gap-y-2">
+                    <p className="text-sm font-medium">Meetings per week</p>
+                    <ChartContainer config={weeklyChartConfig} className="h-[240px] w-full aspect-auto">
+                        <BarChart data={data.meetingsPerWeek}>
+                            <CartesianGrid vertical={false} />
+                            <XAxis
+                                dataKey="week"
+                                tickLine={false}
+                                axisLine={false}
+                                tickFormatter={(week: string) => format(`${week}T00:00`, "MMM d")}
+                            />
+                            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+                            <ChartTooltip content={<ChartTooltipContent />} />
+                            <ChartLegend content={<ChartLegendContent />} />
+                            <Bar dataKey="completed" stackId="meetings" fill="var(--color-completed)" />
+                            <Bar dataKey="cancelled" stackId="meetings" fill="var(--color-cancelled)" />
+                            <Bar dataKey="other" stackId="meetings" fill="var(--color-other)" radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                    </ChartContainer>
+                </div>
+                <div className="flex flex-col gap-y-2">
+                    <p className="text-sm font-medium">Completed vs cancelled</p>
+                    {data.completedMeetings + data.cancelledMeetings === 0 ? (
+                        <p className="text-sm text-muted-foreground">No finished meetings yet</p>
+                    ) : (
+                        <ChartContainer config={outcomeChartConfig} className="h-[240px] w-full aspect-auto">
+                            <PieChart>
+                                <ChartTooltip content={<ChartTooltipContent nameKey="outcome" hideLabel />} />
+                                <Pie data={outcomes} dataKey="value" nameKey="outcome" innerRadius={50}>
+                                    {outcomes.map((item) => (
+                                        <Cell key={item.outcome} fill={item.fill} />
+                                    ))}
+                                </Pie>
+                                <ChartLegend content={<ChartLegendContent nameKey="outcome" />} />
+                            </PieChart>
+                        </ChartContainer>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -9,17 +9,37 @@ import z from "zod"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
 import { GeneratedAvatar } from "@/components/ui/generated-avatar"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { Volume2Icon } from "lucide-react"
 
 import {
     Form,
     FormControl,
+    FormDescription,
     FormField,
     FormItem,
     FormLabel,
     FormMessage,
 } from "@/components/ui/form"
 import { toast } from "sonner"
+import { AgentTool, AudioEncoding, LLMProvider } from "../../types"
+import {
+    AGENT_TOOL_DESCRIPTIONS,
+    AGENT_TOOL_LABELS,
+    AUDIO_ENCODING_LABELS,
+    DEFAULT_AGENT_MODEL,
+    DEFAULT_AGENT_VOICE,
+    LLM_MODEL_PLACEHOLDERS,
+    LLM_PROVIDER_LABELS,
+} from "../../constants"
 
 interface AgentFormProps {
 
@@ -79,17 +99,58 @@ export const AgentForm = ({
         })
     )
 
+    const previewVoice = useMutation(
+        trpc.agents.previewVoice.mutationOptions({
+            onSuccess: async ({ audioUri }) => {
+                try {
+                    await new Audio(audioUri).play()
+                } catch {
+                    toast.error("Could not play the voice preview")
+                }
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
     const form = useForm<z.infer<typeof agentsInsertSchema>>({
         resolver: zodResolver(agentsInsertSchema),
         defaultValues: {
             name: initialValues?.name ?? "",
             instructions: initialValues?.instructions ?? "",
+            languageCode: initialValues?.languageCode ?? DEFAULT_AGENT_VOICE.languageCode,
+            voiceName: initialValues?.voiceName ?? DEFAULT_AGENT_VOICE.voiceName,
+            speakingRate: initialValues?.speakingRate ?? DEFAULT_AGENT_VOICE.speakingRate,
+            pitch: initialValues?.pitch ?? DEFAULT_AGENT_VOICE.pitch,
+            audioEncoding: (initialValues?.audioEncoding as AudioEncoding | undefined) ?? DEFAULT_AGENT_VOICE.audioEncoding,
+            llmProvider: (initialValues?.llmProvider as LLMProvider | undefined) ?? DEFAULT_AGENT_MODEL.llmProvider,
+            llmModel: initialValues?.llmModel ?? DEFAULT_AGENT_MODEL.llmModel,
+            enabledTools: (initialValues?.enabledTools as AgentTool[] | undefined) ?? [],
+            httpToolUrl: initialValues?.httpToolUrl ?? "",
+            httpToolDescription: initialValues?.httpToolDescription ?? "",
         }
     })
 
+    const isHttpToolEnabled = form.watch("enabledTools").includes(AgentTool.CallHttpEndpoint)
+
     const isEdit = !!initialValues?.id
     const isPending  = createAgent.isPending || updateAgent.isPending
 
+    const onPreviewVoice = async () => {
+        const isValid = await form.trigger([
+            "languageCode",
+            "voiceName",
+            "speakingRate",
+            "pitch",
+            "audioEncoding",
+        ])
+        if(!isValid) return
+
+        const { name, languageCode, voiceName, speakingRate, pitch, audioEncoding } = form.getValues()
+        previewVoice.mutate({ name, languageCode, voiceName, speakingRate, pitch, audioEncoding })
+    }
+
     const onSubmit = (values: z.infer<typeof agentsInsertSchema>) => {
         if(isEdit){
             updateAgent.mutate({...values, id: initialValues.id})
@@ -136,6 +197,206 @@ export const AgentForm = ({
                         </FormItem>
                     )}
                 />
+                <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                        name="llmProvider"
+                        control={form.control}
+                        render = {({ field }) => (
+                            <FormItem>
+                                <FormLabel>Model provider</FormLabel>
+                                <Select value={field.value} onValueChange={field.onChange}>
+                                    <FormControl>
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue placeholder="Select a provider"/>
+                                        </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                        {Object.values(LLMProvider).map((provider) => (
+                                            <SelectItem key={provider} value={provider}>
+                                                {LLM_PROVIDER_LABELS[provider]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        name="llmModel"
+                        control={form.control}
+                        render = {({ field }) => (
+                            <FormItem>
+                                <FormLabel>Model</FormLabel>
+                                <FormControl>
+                                    <Input {...field} placeholder={LLM_MODEL_PLACEHOLDERS[form.watch("llmProvider")]}/>
+                                </FormControl>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        name="languageCode"
+                        control={form.control}
+                        render = {({ field }) => (
+                            <FormItem>
+                                <FormLabel>Language</FormLabel>
+                                <FormControl>
+                                    <Input {...field} placeholder="e.g. es-ES"/>
+                                </FormControl>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        name="voiceName"
+                        control={form.control}
+                        render = {({ field }) => (
+                            <FormItem>
+                                <FormLabel>Voice</FormLabel>
+                                <FormControl>
+                                    <Input {...field} placeholder="e.g. es-ES-Neural2-A"/>
+                                </FormControl>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        name="speakingRate"
+                        control={form.control}
+                        render = {({ field }) => (
+                            <FormItem>
+                                <FormLabel>Speaking rate</FormLabel>
+                                <FormControl>
+                                    <Input
+                                        {...field}
+                                        type="number"
+                                        step={0.05}
+                                        min={0.25}
+                                        max={4}
+                                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                                    />
+                                </FormControl>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        name="pitch"
+                        control={form.control}
+                        render = {({ field }) => (
+                            <FormItem>
+                                <FormLabel>Pitch</FormLabel>
+                                <FormControl>
+                                    <Input
+                                        {...field}
+                                        type="number"
+                                        step={0.5}
+                                        min={-20}
+                                        max={20}
+                                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                                    />
+                                </FormControl>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+                </div>
+                <FormField
+                    name="audioEncoding"
+                    control={form.control}
+                    render = {({ field }) => (
+                        <FormItem>
+                            <FormLabel>Audio format</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue placeholder="Select a format"/>
+                                    </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                    {Object.values(AudioEncoding).map((encoding) => (
+                                        <SelectItem key={encoding} value={encoding}>
+                                            {AUDIO_ENCODING_LABELS[encoding]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <FormMessage/>
+                        </FormItem>
+                    )}
+                />
+                <Button
+                    variant="outline"
+                    type="button"
+                    disabled={previewVoice.isPending}
+                    onClick={onPreviewVoice}
+                >
+                    <Volume2Icon/>
+                    {previewVoice.isPending ? "Generating preview..." : "Preview voice"}
+                </Button>
+                <FormField
+                    name="enabledTools"
+                    control={form.control}
+                    render = {({ field }) => (
+                        <FormItem>
+                            <FormLabel>Tools</FormLabel>
+                            <FormDescription>
+                                Actions the agent may take during meetings. Every use is logged to the meeting
+                            </FormDescription>
+                            <div className="flex flex-col gap-y-3">
+                                {Object.values(AgentTool).map((tool) => (
+                                    <label key={tool} className="flex items-start gap-x-3 cursor-pointer">
+                                        <Checkbox
+                                            className="mt-0.5"
+                                            checked={field.value.includes(tool)}
+                                            onCheckedChange={(checked) => field.onChange(
+                                                checked
+                                                    ? [...field.value, tool]
+                                                    : field.value.filter((value) => value !== tool)
+                                            )}
+                                        />
+                                        <span className="flex flex-col">
+                                            <span className="text-sm font-medium">{AGENT_TOOL_LABELS[tool]}</span>
+                                            <span className="text-xs text-muted-foreground">{AGENT_TOOL_DESCRIPTIONS[tool]}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                            <FormMessage/>
+                        </FormItem>
+                    )}
+                />
+                {isHttpToolEnabled && (
+                    <>
+                        <FormField
+                            name="httpToolUrl"
+                            control={form.control}
+                            render = {({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Endpoint URL</FormLabel>
+                                    <FormControl>
+                                        <Input {...field} type="url" placeholder="https://api.example.com/agent-hook"/>
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            name="httpToolDescription"
+                            control={form.control}
+                            render = {({ field }) => (
+                                <FormItem>
+                                    <FormLabel>When to call it</FormLabel>
+                                    <FormControl>
+                                        <Textarea {...field} placeholder="e.g. Looks up the status of a customer order by order number"/>
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+                    </>
+                )}
 
                 <div className="flex justify-between gap-x-2">
                     {onCancel && (
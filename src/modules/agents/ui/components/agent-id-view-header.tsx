@@ -14,13 +14,14 @@ import {
     DropdownMenuContent
 } from "@/components/ui/dropdown-menu"
 
-import { ChevronRightIcon, TrashIcon, PencilIcon, MoreVerticalIcon } from "lucide-react"
+import { ChevronRightIcon, TrashIcon, PencilIcon, MoreVerticalIcon, CopyIcon } from "lucide-react"
 import Link from "next/link"
 
 interface Props {
     agentId: string
     agentName: string
     onEdit: () => void
+    onDuplicate: () => void
     onRemove: () => void
 }
 
@@ -28,6 +29,7 @@ export const AgentIdViewHeader = ({
     agentId,
     agentName,
     onEdit,
+    onDuplicate,
     onRemove
 } : Props) => {
 
@@ -63,6 +65,10 @@ export const AgentIdViewHeader = ({
                     <PencilIcon className="size-4 text-black"/>
                     Edit
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={onDuplicate}>
+                    <CopyIcon className="size-4 text-black"/>
+                    Duplicate
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={onRemove}>
                     <TrashIcon className="size-4 text-black"/>
                     Delete
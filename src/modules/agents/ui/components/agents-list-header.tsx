@@ -1,7 +1,8 @@
 "use client"
 
 import { Button } from "@/components/ui/button"
-import { PlusIcon, XCircleIcon } from "lucide-react"
+import { LayoutTemplateIcon, PlusIcon, XCircleIcon } from "lucide-react"
+import Link from "next/link"
 import { NewAgentDialog } from "./new-agent-dialog"
 import { useState } from "react"
 import { useAgentFilters } from "../../hooks/use-agents-filters"
@@ -28,10 +29,18 @@ export const AgentsListHeader = () => {
         <div className="py-4 px-4 md:px-8 flex flex-col gap-y-4">
             <div className="flex items-center justify-between">
                 <h5 className="font-medium text-xl">My Agents</h5>
-                <Button onClick={() => setIsDialogOpen(true)}>
-                    <PlusIcon/>
-                    New Agent
-                </Button>
+                <div className="flex items-center gap-x-2">
+                    <Button variant="outline" asChild>
+                        <Link href="/agents/templates">
+                            <LayoutTemplateIcon/>
+                            Templates
+                        </Link>
+                    </Button>
+                    <Button onClick={() => setIsDialogOpen(true)}>
+                        <PlusIcon/>
+                        New Agent
+                    </Button>
+                </div>
             </div>
             <div className="flex items-center gap-x-2 p-1">
                 <AgentsSearchFilter/>
@@ -3,7 +3,8 @@
 import { ColumnDef } from "@tanstack/react-table"
 import { AgentsGetMany } from "../../types"
 import { GeneratedAvatar } from "@/components/ui/generated-avatar"
-import { CornerDownRightIcon, VideoIcon } from "lucide-react"
+import { CalendarIcon, ClockIcon, CornerDownRightIcon, VideoIcon } from "lucide-react"
+import { format } from "date-fns"
 import { Badge } from "@/components/ui/badge"
 
 // This type is used to define the shape of our data.
@@ -41,6 +42,26 @@ export const columns: ColumnDef<AgentsGetMany[number]>[] = [
                 {row.original.meetingCount} {row.original.meetingCount === 1 ? "Meeting" : "Meetings" }
         </Badge>
     )
-  }
+  },
+  {
+    accessorKey: "lastUsedAt",
+    header: "Last used",
+    cell: ({ row }) => (
+        <div className="flex items-center gap-x-2 text-sm text-muted-foreground">
+            <ClockIcon className="size-4"/>
+            {row.original.lastUsedAt ? format(row.original.lastUsedAt, "MMM d, yyyy") : "Never"}
+        </div>
+    )
+  },
+  {
+    accessorKey: "createdAt",
+    header: "Created",
+    cell: ({ row }) => (
+        <div className="flex items-center gap-x-2 text-sm text-muted-foreground">
+            <CalendarIcon className="size-4"/>
+            {format(row.original.createdAt, "MMM d, yyyy")}
+        </div>
+    )
+  },
 
 ]
\ No newline at end of file
@@ -13,6 +13,8 @@ import { toast } from "sonner"
 import { useConfirm } from "@/hooks/use-confirm"
 import { useState } from "react"
 import { UpdateAgentDialog } from "../components/update-agent-dialog"
+import { AgentAnalytics } from "../components/agent-analytics"
+import { AgentKnowledge } from "@/modules/knowledge/ui/components/agent-knowledge"
 
 interface Props {
     agentId: string
@@ -40,6 +42,19 @@ export const AgentIdView = ({agentId}: Props) => {
         })
     )
 
+    const duplicateAgent = useMutation(
+        trpc.agents.duplicate.mutationOptions({
+            onSuccess: async (duplicatedAgent) => {
+                await queryClient.invalidateQueries(trpc.agents.getMany.queryOptions({}))
+                toast.success(`Created ${duplicatedAgent.name}`)
+                router.push(`/agents/${duplicatedAgent.id}`)
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
     const [RemoveConfirmation, confirmRemove] = useConfirm(
         "Are you sure?",
         `The following action will remove ${data.meetingCount} associated meetings`,
@@ -67,6 +82,7 @@ export const AgentIdView = ({agentId}: Props) => {
                     agentId={agentId}
                     agentName={data.name}
                     onEdit={() => setUpdateAgentDialogOpen(true)}
+                    onDuplicate={() => duplicateAgent.mutate({id: agentId})}
                     onRemove={handleRemoveAgent}
                 />
                 <div className="bg-white rounded-lg border">
@@ -93,6 +109,8 @@ export const AgentIdView = ({agentId}: Props) => {
                         </div>
                     </div>
                 </div>
+                <AgentKnowledge agentId={agentId} />
+                <AgentAnalytics agentId={agentId} />
             </div>
         </>
     )
@@ -0,0 +1,93 @@
+"use client"
+
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { LanguagesIcon, SparklesIcon, WrenchIcon } from "lucide-react"
+
+import { useTRPC } from "@/trpc/client"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { GeneratedAvatar } from "@/components/ui/generated-avatar"
+import { AGENT_TEMPLATES } from "../../templates"
+
+export const AgentTemplatesView = () => {
+    const trpc = useTRPC()
+    const router = useRouter()
+    const queryClient = useQueryClient()
+
+    const createAgent = useMutation(
+        trpc.agents.create.mutationOptions({
+            onSuccess: async (createdAgent) => {
+                await queryClient.invalidateQueries(
+                    trpc.agents.getMany.queryOptions({}),
+                )
+                toast.success(`Created ${createdAgent.name}`)
+                router.push(`/agents/${createdAgent.id}`)
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
+    return (
+        <div className="flex-1 py-4 px-4 md:px-8 flex flex-col gap-y-4">
+            <div className="flex flex-col gap-y-1">
+                <h5 className="font-medium text-xl">Agent templates</h5>
+                <p className="text-sm text-muted-foreground">
+                    Start from a ready-made agent and make it your own. You can edit everything after it is created
+                </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {AGENT_TEMPLATES.map((template) => {
+                    const isCreating =
+                        createAgent.isPending && createAgent.variables?.name === template.values.name
+
+                    return (
+                        <div key={template.id} className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-4">
+                            <div className="flex items-center gap-x-3">
+                                <GeneratedAvatar
+                                    variant="botttsNeutral"
+                                    seed={template.values.name}
+                                    className="size-10"
+                                />
+                                <div className="flex flex-col min-w-0">
+                                    <h6 className="font-medium">{template.title}</h6>
+                                    <p className="text-sm text-muted-foreground">{template.summary}</p>
+                                </div>
+                            </div>
+                            <p className="text-sm text-neutral-800 line-clamp-4 whitespace-pre-line">
+                                {template.values.instructions}
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                                <Badge variant="outline" className="flex items-center gap-x-1 [&>svg]:size-3">
+                                    <LanguagesIcon />
+                                    {template.values.voiceName}
+                                </Badge>
+                                <Badge variant="outline" className="flex items-center gap-x-1 [&>svg]:size-3">
+                                    <SparklesIcon />
+                                    {template.values.llmModel}
+                                </Badge>
+                                {template.values.enabledTools.length > 0 && (
+                                    <Badge variant="outline" className="flex items-center gap-x-1 [&>svg]:size-3">
+                                        <WrenchIcon />
+                                        {template.values.enabledTools.length}{" "}
+                                        {template.values.enabledTools.length === 1 ? "tool" : "tools"}
+                                    </Badge>
+                                )}
+                            </div>
+                            <Button
+                                className="mt-auto"
+                                disabled={createAgent.isPending}
+                                onClick={() => createAgent.mutate(template.values)}
+                            >
+                                {isCreating ? "Creating..." : "Use template"}
+                            </Button>
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
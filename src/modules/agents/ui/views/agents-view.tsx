@@ -10,6 +10,7 @@ import { EmptyState } from "@/components/ui/empty-state";
 import { useAgentFilters } from "../../hooks/use-agents-filters";
 import { DataPagination } from "../components/data-pagination";
 import { useRouter } from "next/navigation";
+import { AgentSortBy, SortDirection } from "../../types";
 
 
 
@@ -22,12 +23,28 @@ export const AgentsView = () => {
         ...filters,
     }))
 
+    const onSortingChange = (columnId: string) => {
+        const sortBy = columnId as AgentSortBy
+        // Names read naturally A-Z; counts and dates are most useful newest/largest first
+        const defaultDirection = sortBy === AgentSortBy.Name ? SortDirection.Asc : SortDirection.Desc
+
+        setFilters({
+            sortBy,
+            sortDirection: sortBy === filters.sortBy
+                ? filters.sortDirection === SortDirection.Asc ? SortDirection.Desc : SortDirection.Asc
+                : defaultDirection,
+            page: 1,
+        })
+    }
+
     return (
         <div className="flex pb-4 px-4 md:px-8 flex-col gap-y-4">
             <DataTable
                 data={data.items} 
                 columns = {columns}
                 onRowClick={(row) => router.push(`/agents/${row.id}`)}
+                sorting={[{ id: filters.sortBy, desc: filters.sortDirection === SortDirection.Desc }]}
+                onSortingChange={onSortingChange}
             />
             <DataPagination
                 page={filters.page}
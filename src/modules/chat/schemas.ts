@@ -0,0 +1,8 @@
+import {z} from "zod"
+
+export const chatSendMessageSchema = z.object({
+    meetingId: z.string().min(1, {message: "Meeting is required"}),
+    // Omitted to start a new thread
+    threadId: z.string().nullish(),
+    content: z.string().trim().min(1, {message: "Message is required"}).max(4000, {message: "Message is too long"}),
+})
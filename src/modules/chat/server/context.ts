@@ -0,0 +1,51 @@
+import { formatTimestamp } from "@/lib/utils"
+import { getTranscriptWithSpeakers } from "@/modules/meetings/server/transcript"
+
+// Keeps long calls inside the context window of the smaller models
+const MAX_TRANSCRIPT_CHARS = 60_000
+
+interface ChatContextInput {
+  meetingId: string
+  agentName: string
+  instructions: string
+  meetingName: string
+  summary: string | null
+  transcriptUrl: string | null
+}
+
+/** Builds the system prompt the agent answers follow-up questions with. */
+export const buildChatSystemPrompt = async ({
+  meetingId,
+  agentName,
+  instructions,
+  meetingName,
+  summary,
+  transcriptUrl,
+}: ChatContextInput) => {
+  const transcript = await getTranscriptWithSpeakers({
+    id: meetingId,
+    transcriptUrl,
+  })
+
+  let transcriptText = transcript
+    .map((item) => `[${formatTimestamp(item.start_ts)}] ${item.user.name}: ${item.text}`)
+    .join("\n")
+
+  if (transcriptText.length > MAX_TRANSCRIPT_CHARS) {
+    transcriptText = `${transcriptText.slice(0, MAX_TRANSCRIPT_CHARS)}\n[transcript truncated]`
+  }
+
+  return `You are ${agentName}, answering the user's follow-up questions about the meeting "${meetingName}" that you took part in.
+
+Your original instructions for the meeting were:
+${instructions}
+
+Meeting summary:
+${summary || "No summary is available."}
+
+Full transcript (timestamps are offsets from the start of the call):
+${transcriptText || "No transcript is available."}
+
+Answer from the summary and transcript above. Quote or reference timestamps when it helps.
+If the answer is not in the meeting, say so instead of guessing. Format answers in markdown.`
+}
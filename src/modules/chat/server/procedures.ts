@@ -0,0 +1,201 @@
+import {z} from "zod"
+import {and, asc, desc, eq, getTableColumns} from "drizzle-orm"
+import { db } from "@/db";
+import { agents, meetingChatMessages, meetingChatThreads, meetings } from "@/db/schema";
+import {createTRPCRouter, protectedProcedure} from "@/trpc/init"
+import { TRPCError } from "@trpc/server";
+import { getLLMProvider, LLMMessage } from "@/lib/llm";
+import { MeetingStatus } from "@/modules/meetings/types";
+import { chatSendMessageSchema } from "../schemas";
+import { ChatStreamChunk } from "../types";
+import { buildChatSystemPrompt } from "./context";
+
+const THREAD_TITLE_LENGTH = 60
+
+const getOwnedThread = async (threadId: string, userId: string) => {
+  const [existingThread] = await db
+    .select()
+    .from(meetingChatThreads)
+    .where(
+      and(
+        eq(meetingChatThreads.id, threadId),
+        eq(meetingChatThreads.userId, userId)
+      )
+    )
+
+  if (!existingThread) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Thread not found' })
+  }
+
+  return existingThread
+}
+
+export const chatRouter = createTRPCRouter({
+
+  getThreads: protectedProcedure
+    .input(z.object({ meetingId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      return db
+        .select()
+        .from(meetingChatThreads)
+        .where(
+          and(
+            eq(meetingChatThreads.meetingId, input.meetingId),
+            eq(meetingChatThreads.userId, ctx.auth.user.id)
+          )
+        )
+        .orderBy(desc(meetingChatThreads.updatedAt))
+    }),
+
+  getMessages: protectedProcedure
+    .input(z.object({ threadId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      await getOwnedThread(input.threadId, ctx.auth.user.id)
+
+      return db
+        .select({
+          id: meetingChatMessages.id,
+          role: meetingChatMessages.role,
+          content: meetingChatMessages.content,
+          createdAt: meetingChatMessages.createdAt,
+        })
+        .from(meetingChatMessages)
+        .where(eq(meetingChatMessages.threadId, input.threadId))
+        .orderBy(asc(meetingChatMessages.sequence))
+    }),
+
+  removeThread: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const [removedThread] = await db
+        .delete(meetingChatThreads)
+        .where(
+          and(
+            eq(meetingChatThreads.id, input.id),
+            eq(meetingChatThreads.userId, ctx.auth.user.id)
+          )
+        )
+        .returning()
+
+      if (!removedThread) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Thread not found' })
+      }
+
+      return removedThread
+    }),
+
+  // Streams the answer as it is generated; needs the streaming link on the client
+  sendMessage: protectedProcedure
+    .input(chatSendMessageSchema)
+    .mutation(async function* ({ input, ctx }): AsyncGenerator<ChatStreamChunk> {
+      const [existingMeeting] = await db
+        .select({
+          ...getTableColumns(meetings),
+          agent: agents,
+        })
+        .from(meetings)
+        .innerJoin(agents, eq(meetings.agentId, agents.id))
+        .where(
+          and(
+            eq(meetings.id, input.meetingId),
+            eq(meetings.userId, ctx.auth.user.id)
+          )
+        )
+
+      if (!existingMeeting) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Meeting not found' })
+      }
+
+      if (existingMeeting.status !== MeetingStatus.Completed) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Ask AI is available once the meeting is completed',
+        })
+      }
+
+      const thread = input.threadId
+        ? await getOwnedThread(input.threadId, ctx.auth.user.id)
+        : await db
+            .insert(meetingChatThreads)
+            .values({
+              meetingId: existingMeeting.id,
+              userId: ctx.auth.user.id,
+              title: input.content.slice(0, THREAD_TITLE_LENGTH),
+            })
+            .returning()
+            .then(([createdThread]) => createdThread)
+
+      if (thread.meetingId !== existingMeeting.id) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Thread belongs to another meeting' })
+      }
+
+      yield { type: "thread", threadId: thread.id }
+
+      await db.insert(meetingChatMessages).values({
+        threadId: thread.id,
+        role: "user",
+        content: input.content,
+      })
+
+      const history: LLMMessage[] = await db
+        .select({
+          role: meetingChatMessages.role,
+          content: meetingChatMessages.content,
+        })
+        .from(meetingChatMessages)
+        .where(eq(meetingChatMessages.threadId, thread.id))
+        .orderBy(asc(meetingChatMessages.sequence))
+
+      const system = await buildChatSystemPrompt({
+        meetingId: existingMeeting.id,
+        agentName: existingMeeting.agent.name,
+        instructions: existingMeeting.agent.instructions,
+        meetingName: existingMeeting.name,
+        summary: existingMeeting.summary,
+        transcriptUrl: existingMeeting.transcriptUrl,
+      })
+
+      let answer = ""
+      let answerId: string | null = null
+      try {
+        const stream = getLLMProvider(existingMeeting.agent.llmProvider).stream({
+          model: existingMeeting.agent.llmModel,
+          system,
+          messages: history,
+        })
+
+        for await (const text of stream) {
+          answer += text
+          yield { type: "delta", text }
+        }
+      } finally {
+        // Keep whatever was generated, even if the client went away mid-answer
+        if (answer.trim()) {
+          const [assistantMessage] = await db
+            .insert(meetingChatMessages)
+            .values({
+              threadId: thread.id,
+              role: "assistant",
+              content: answer,
+            })
+            .returning()
+
+          await db
+            .update(meetingChatThreads)
+            .set({ updatedAt: new Date() })
+            .where(eq(meetingChatThreads.id, thread.id))
+
+          answerId = assistantMessage.id
+        }
+      }
+
+      if (!answerId) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'The agent returned an empty answer',
+        })
+      }
+
+      yield { type: "done", messageId: answerId }
+    }),
+})
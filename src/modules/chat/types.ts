@@ -0,0 +1,11 @@
+import { inferRouterOutputs } from "@trpc/server";
+
+import type { AppRouter } from "@/trpc/routers/_app";
+
+export type ChatGetThreads = inferRouterOutputs<AppRouter>["chat"]["getThreads"]
+export type ChatGetMessages = inferRouterOutputs<AppRouter>["chat"]["getMessages"]
+
+export type ChatStreamChunk =
+    | { type: "thread", threadId: string }
+    | { type: "delta", text: string }
+    | { type: "done", messageId: string }
@@ -0,0 +1,225 @@
+import { FormEvent, KeyboardEvent, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { PlusIcon, SendIcon, TrashIcon } from "lucide-react"
+import Markdown from "react-markdown"
+import { toast } from "sonner"
+
+import { useTRPC } from "@/trpc/client"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { GeneratedAvatar } from "@/components/ui/generated-avatar"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+
+interface Props {
+    meetingId: string
+    agentName: string
+}
+
+interface ChatBubbleProps {
+    role: "user" | "assistant"
+    content: string
+    agentName: string
+}
+
+const ChatBubble = ({ role, content, agentName }: ChatBubbleProps) => (
+    <div className={cn("flex gap-x-2", role === "user" && "justify-end")}>
+        {role === "assistant" && (
+            <GeneratedAvatar
+                seed={agentName}
+                variant="botttsNeutral"
+                className="size-6 shrink-0"
+            />
+        )}
+        <div
+            className={cn(
+                "rounded-lg px-3 py-2 text-sm max-w-[80%]",
+                role === "user" ? "bg-primary text-primary-foreground whitespace-pre-wrap" : "bg-muted"
+            )}
+        >
+            {role === "user" ? content : (
+                <Markdown
+                    components={{
+                        p: (props) => <p className="mb-2 last:mb-0 leading-relaxed" {...props} />,
+                        ul: (props) => <ul className="list-disc list-inside mb-2" {...props} />,
+                        ol: (props) => <ol className="list-decimal list-inside mb-2" {...props} />,
+                        strong: (props) => <strong className="font-semibold" {...props} />,
+                        code: (props) => <code className="bg-gray-100 px-1 py-0.5 rounded" {...props} />,
+                    }}
+                >
+                    {content}
+                </Markdown>
+            )}
+        </div>
+    </div>
+)
+
+export const AskAi = ({ meetingId, agentName }: Props) => {
+    const trpc = useTRPC()
+    const queryClient = useQueryClient()
+
+    const [threadId, setThreadId] = useState<string | null>(null)
+    const [draft, setDraft] = useState("")
+    // The question being answered, shown until the persisted messages are refetched
+    const [pending, setPending] = useState<{ question: string, answer: string } | null>(null)
+
+    const threads = useQuery(trpc.chat.getThreads.queryOptions({ meetingId }))
+    const messages = useQuery({
+        ...trpc.chat.getMessages.queryOptions({ threadId: threadId ?? "" }),
+        enabled: !!threadId,
+    })
+
+    const sendMessage = useMutation(
+        trpc.chat.sendMessage.mutationOptions({
+            trpc: { context: { stream: true } },
+        })
+    )
+
+    const removeThread = useMutation(
+        trpc.chat.removeThread.mutationOptions({
+            onSuccess: async () => {
+                setThreadId(null)
+                await queryClient.invalidateQueries(
+                    trpc.chat.getThreads.queryOptions({ meetingId })
+                )
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
+    const onSubmit = async (e?: FormEvent) => {
+        e?.preventDefault()
+
+        const content = draft.trim()
+        if (!content || pending) return
+
+        setDraft("")
+        setPending({ question: content, answer: "" })
+
+        let activeThreadId = threadId
+        try {
+            const stream = await sendMessage.mutateAsync({ meetingId, threadId, content })
+            for await (const chunk of stream) {
+                if (chunk.type === "thread") {
+                    activeThreadId = chunk.threadId
+                } else if (chunk.type === "delta") {
+                    setPending((current) => current && {
+                        ...current,
+                        answer: current.answer + chunk.text,
+                    })
+                }
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to get an answer")
+        } finally {
+            // Switch threads only once the answer is stored, so the question is not shown twice
+            setThreadId(activeThreadId)
+            await queryClient.invalidateQueries(
+                trpc.chat.getThreads.queryOptions({ meetingId })
+            )
+            if (activeThreadId) {
+                await queryClient.invalidateQueries(
+                    trpc.chat.getMessages.queryOptions({ threadId: activeThreadId })
+                )
+            }
+            setPending(null)
+        }
+    }
+
+    const onKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault()
+            void onSubmit()
+        }
+    }
+
+    const history = threadId ? messages.data ?? [] : []
+
+    return (
+        <div className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-4">
+            <div className="flex items-center gap-x-2">
+                <Select
+                    value={threadId ?? ""}
+                    onValueChange={setThreadId}
+                    disabled={!!pending}
+                >
+                    <SelectTrigger className="flex-1 min-w-0">
+                        <SelectValue placeholder="New conversation" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(threads.data ?? []).map((thread) => (
+                            <SelectItem key={thread.id} value={thread.id}>
+                                <span className="truncate">{thread.title}</span>
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setThreadId(null)}
+                    disabled={!threadId || !!pending}
+                >
+                    <PlusIcon />
+                </Button>
+                <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => threadId && removeThread.mutate({ id: threadId })}
+                    disabled={!threadId || !!pending || removeThread.isPending}
+                >
+                    <TrashIcon />
+                </Button>
+            </div>
+            <ScrollArea className="h-[420px]">
+                <div className="flex flex-col gap-y-4 pr-3">
+                    {history.length === 0 && !pending && (
+                        <p className="text-sm text-muted-foreground text-center py-8">
+                            Ask {agentName} anything about this meeting
+                        </p>
+                    )}
+                    {history.map((message) => (
+                        <ChatBubble
+                            key={message.id}
+                            role={message.role}
+                            content={message.content}
+                            agentName={agentName}
+                        />
+                    ))}
+                    {pending && (
+                        <>
+                            <ChatBubble role="user" content={pending.question} agentName={agentName} />
+                            <ChatBubble
+                                role="assistant"
+                                content={pending.answer || "Thinking..."}
+                                agentName={agentName}
+                            />
+                        </>
+                    )}
+                </div>
+            </ScrollArea>
+            <form className="flex items-end gap-x-2" onSubmit={onSubmit}>
+                <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={onKeyDown}
+                    placeholder="Ask a follow-up question..."
+                    maxLength={4000}
+                    disabled={!!pending}
+                />
+                <Button type="submit" size="icon" disabled={!draft.trim() || !!pending}>
+                    <SendIcon />
+                </Button>
+            </form>
+        </div>
+    )
+}
@@ -1,19 +1,182 @@
-import {CommandInput, CommandItem, CommandList, CommandResponsiveDialog } from "@/components/ui/command"
-import { Dispatch, SetStateAction } from "react"
+import {
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandResponsiveDialog,
+  CommandSeparator,
+} from "@/components/ui/command"
+import { Dispatch, SetStateAction, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useQuery } from "@tanstack/react-query"
+import { CalendarPlusIcon, VideoIcon } from "lucide-react"
+
+import { useTRPC } from "@/trpc/client"
+import { cn } from "@/lib/utils"
+import { useDebounce } from "@/hooks/use-debounce"
+import { Badge } from "@/components/ui/badge"
+import { GeneratedAvatar } from "@/components/ui/generated-avatar"
+import { NewMeetingDialog } from "@/modules/meetings/ui/components/new-meeting-dialog"
+import { statusColorMap, statusIconMap } from "@/modules/meetings/constants"
+import { MeetingStatus } from "@/modules/meetings/types"
 
 interface Props {
     open: boolean
     setOpen: Dispatch<SetStateAction<boolean>>
 }
 
+const SEARCH_DEBOUNCE_MS = 300
+const RESULTS_PER_GROUP = 5
+// Only the top agents get a "New meeting with" action, to keep the list scannable
+const QUICK_ACTION_AGENTS = 3
+
 export const DashboardCommand = ({open, setOpen}: Props) => {
+  const trpc = useTRPC()
+  const router = useRouter()
+
+  const [search, setSearch] = useState("")
+  const debouncedSearch = useDebounce(search, SEARCH_DEBOUNCE_MS)
+  const [newMeetingAgentId, setNewMeetingAgentId] = useState<string | null>(null)
+
+  const agents = useQuery({
+    ...trpc.agents.getMany.queryOptions({
+      search: debouncedSearch,
+      pageSize: RESULTS_PER_GROUP,
+    }),
+    enabled: open,
+  })
+  const meetings = useQuery({
+    ...trpc.meetings.getMany.queryOptions({
+      search: debouncedSearch,
+      pageSize: RESULTS_PER_GROUP,
+    }),
+    enabled: open,
+  })
+
+  const agentItems = agents.data?.items ?? []
+  const meetingItems = meetings.data?.items ?? []
+  const joinableMeetings = meetingItems.filter((meeting) =>
+    meeting.status === MeetingStatus.Upcoming || meeting.status === MeetingStatus.Active
+  )
+  const isLoading = agents.isLoading || meetings.isLoading || search !== debouncedSearch
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) setSearch("")
+    setOpen(value)
+  }
+
+  const navigate = (href: string) => {
+    handleOpenChange(false)
+    router.push(href)
+  }
+
   return (
-    <CommandResponsiveDialog open={open} onOpenChange={setOpen}>
-      <CommandInput placeholder="Find a meeting or agent" />
+    <>
+    <NewMeetingDialog
+      open={!!newMeetingAgentId}
+      onOpenChange={(value) => !value && setNewMeetingAgentId(null)}
+      defaultAgentId={newMeetingAgentId ?? undefined}
+    />
+    <CommandResponsiveDialog
+      shouldFilter={false}
+      open={open}
+      onOpenChange={handleOpenChange}
+    >
+      <CommandInput
+        placeholder="Find a meeting or agent"
+        value={search}
+        onValueChange={setSearch}
+      />
       <CommandList>
-        <CommandItem>Test</CommandItem>
+        <CommandEmpty>
+          <span className="text-muted-foreground text-sm">
+            {isLoading ? "Searching..." : "No meetings or agents found"}
+          </span>
+        </CommandEmpty>
+        {meetingItems.length > 0 && (
+          <CommandGroup heading="Meetings">
+            {meetingItems.map((meeting) => {
+              const Icon = statusIconMap[meeting.status]
+              return (
+                <CommandItem
+                  key={meeting.id}
+                  value={`meeting-${meeting.id}`}
+                  onSelect={() => navigate(`/meetings/${meeting.id}`)}
+                >
+                  <GeneratedAvatar
+                    seed={meeting.agent.name}
+                    variant="botttsNeutral"
+                    className="size-5"
+                  />
+                  <span className="truncate capitalize">{meeting.name}</span>
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      "ml-auto capitalize [&>svg]:size-3",
+                      statusColorMap[meeting.status]
+                    )}
+                  >
+                    <Icon className={cn(meeting.status === MeetingStatus.Processing && "animate-spin")} />
+                    {meeting.status}
+                  </Badge>
+                </CommandItem>
+              )
+            })}
+          </CommandGroup>
+        )}
+        {agentItems.length > 0 && (
+          <CommandGroup heading="Agents">
+            {agentItems.map((agent) => (
+              <CommandItem
+                key={agent.id}
+                value={`agent-${agent.id}`}
+                onSelect={() => navigate(`/agents/${agent.id}`)}
+              >
+                <GeneratedAvatar
+                  seed={agent.name}
+                  variant="botttsNeutral"
+                  className="size-5"
+                />
+                <span className="truncate">{agent.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+        {(agentItems.length > 0 || joinableMeetings.length > 0) && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Quick actions">
+              {agentItems.slice(0, QUICK_ACTION_AGENTS).map((agent) => (
+                <CommandItem
+                  key={`new-meeting-${agent.id}`}
+                  value={`new-meeting-${agent.id}`}
+                  onSelect={() => {
+                    handleOpenChange(false)
+                    setNewMeetingAgentId(agent.id)
+                  }}
+                >
+                  <CalendarPlusIcon />
+                  <span className="truncate">New meeting with {agent.name}</span>
+                </CommandItem>
+              ))}
+              {joinableMeetings.map((meeting) => (
+                <CommandItem
+                  key={`start-call-${meeting.id}`}
+                  value={`start-call-${meeting.id}`}
+                  onSelect={() => navigate(`/call/${meeting.id}`)}
+                >
+                  <VideoIcon />
+                  <span className="truncate">
+                    {meeting.status === MeetingStatus.Active ? "Join call" : "Start call"}: {meeting.name}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
       </CommandList>
     </CommandResponsiveDialog>
+    </>
   )
 }
-
@@ -14,7 +14,7 @@ import {
 
  } from "@/components/ui/sidebar"
 import { cn } from "@/lib/utils"
-import { BotIcon, VideoIcon } from "lucide-react"
+import { BotIcon, LayoutTemplateIcon, VideoIcon } from "lucide-react"
 import Image from "next/image"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
@@ -31,6 +31,11 @@ const firstSection = [
         icon: BotIcon,
         label: "Agents",
         href: "/agents",
+    },
+    {
+        icon: LayoutTemplateIcon,
+        label: "Agent templates",
+        href: "/agents/templates",
     }
 ]
 // const secondSection = [
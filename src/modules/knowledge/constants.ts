@@ -0,0 +1,20 @@
+import { DocumentType } from "./types"
+
+export const MAX_DOCUMENT_SIZE_BYTES = 10 * 1024 * 1024
+
+// Roughly 150 pages of prose; keeps a single document's embedding job bounded
+export const MAX_DOCUMENT_CHARACTERS = 500_000
+
+export const DOCUMENT_TYPES_BY_EXTENSION: Record<string, DocumentType> = {
+    ".pdf": DocumentType.Pdf,
+    ".md": DocumentType.Markdown,
+    ".markdown": DocumentType.Markdown,
+    ".txt": DocumentType.Text,
+}
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+    [DocumentType.Pdf]: "PDF",
+    [DocumentType.Markdown]: "Markdown",
+    [DocumentType.Text]: "Text",
+    [DocumentType.Url]: "Web page",
+}
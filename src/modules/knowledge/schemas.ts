@@ -0,0 +1,13 @@
+import {z} from "zod"
+import { MAX_DOCUMENT_CHARACTERS } from "./constants"
+
+export const knowledgeAddUrlSchema = z.object({
+    agentId: z.string().min(1, {message: "Agent is required"}),
+    url: z.url({protocol: /^https?$/, message: "Enter a valid http(s) URL"}),
+})
+
+export const knowledgeAddTextSchema = z.object({
+    agentId: z.string().min(1, {message: "Agent is required"}),
+    name: z.string().trim().min(1, {message: "Name is required"}).max(200, {message: "Name is too long"}),
+    content: z.string().trim().min(1, {message: "Content is required"}).max(MAX_DOCUMENT_CHARACTERS, {message: "Document is too long"}),
+})
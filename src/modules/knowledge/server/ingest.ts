@@ -0,0 +1,277 @@
+import { and, asc, eq } from "drizzle-orm"
+import { extractText } from "unpdf"
+
+import { db } from "@/db"
+import { agentDocumentChunks, agentDocuments } from "@/db/schema"
+import { inngest } from "@/inngest/client"
+import { embedDocuments } from "@/lib/embeddings"
+import { fetchPublicUrl } from "@/lib/safe-fetch"
+
+import { DOCUMENT_TYPES_BY_EXTENSION, MAX_DOCUMENT_SIZE_BYTES } from "../constants"
+import { DocumentStatus, DocumentType } from "../types"
+
+// Target chunk size in characters; about 300 tokens keeps excerpts focused
+const CHUNK_SIZE = 1200
+// Characters repeated at the start of the next chunk so sentences split across
+// a boundary can still be retrieved whole
+const CHUNK_OVERLAP = 200
+
+// Keeps each insert well under the HTTP driver's request size limit
+const INSERT_BATCH_SIZE = 100
+
+const URL_FETCH_TIMEOUT_MS = 15_000
+
+/** Hands a document to the background job that fetches, chunks and embeds it. */
+export const queueDocumentIngest = async (documentId: string) => {
+  await inngest.send({
+    name: "agents/document.ingest",
+    data: { documentId },
+  })
+}
+
+/** Returns the document type for an uploaded file name, or null if unsupported. */
+export const getDocumentType = (fileName: string) => {
+  const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase()
+  return DOCUMENT_TYPES_BY_EXTENSION[extension] ?? null
+}
+
+/** Extracts plain text from an uploaded PDF, markdown or text file. */
+export const extractFileText = async (file: File, type: DocumentType) => {
+  if (type === DocumentType.Pdf) {
+    const { text } = await extractText(new Uint8Array(await file.arrayBuffer()), {
+      mergePages: true,
+    })
+    return normalizeText(text)
+  }
+
+  return normalizeText(await file.text())
+}
+
+// Pages are held to the same size limit as uploads, even when they stream
+// without a Content-Length
+const readLimitedText = async (url: string, response: Response) => {
+  const tooLarge = () => new Error(`${url} is larger than 10 MB`)
+
+  if (Number(response.headers.get("content-length")) > MAX_DOCUMENT_SIZE_BYTES) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+
+  if (!response.body) {
+    return ""
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let size = 0
+  let text = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.byteLength
+    if (size > MAX_DOCUMENT_SIZE_BYTES) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    text += decoder.decode(value, { stream: true })
+  }
+
+  return text + decoder.decode()
+}
+
+/** Downloads a web page and reduces it to readable text. */
+export const fetchUrlText = async (url: string) => {
+  const response = await fetchPublicUrl(url, {
+    signal: AbortSignal.timeout(URL_FETCH_TIMEOUT_MS),
+    headers: { Accept: "text/html, text/plain, text/markdown" },
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  }
+
+  const body = await readLimitedText(url, response)
+  if (!response.headers.get("content-type")?.includes("html")) {
+    return { title: null, text: normalizeText(body) }
+  }
+
+  const title = body.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+  return {
+    title: title ? decodeEntities(title).trim() : null,
+    text: normalizeText(htmlToText(body)),
+  }
+}
+
+function htmlToText(html: string) {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|svg|head|nav|footer)[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<\/(p|div|section|article|li|h[1-6]|tr|br)>|<br\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, " ")
+  )
+}
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&")
+}
+
+function normalizeText(text: string) {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+function splitLongParagraph(paragraph: string) {
+  return paragraph.split(/(?<=[.!?])\s+/).flatMap((sentence) => {
+    const parts: string[] = []
+    for (let i = 0; i < sentence.length; i += CHUNK_SIZE) {
+      parts.push(sentence.slice(i, i + CHUNK_SIZE))
+    }
+    return parts
+  })
+}
+
+/**
+ * Packs paragraphs into chunks of about `CHUNK_SIZE` characters. Paragraphs
+ * longer than a chunk are cut on sentence boundaries where possible.
+ */
+export const chunkText = (text: string): string[] => {
+  const pieces = text
+    .split(/\n{2,}/)
+    .flatMap((paragraph) =>
+      paragraph.length <= CHUNK_SIZE ? [paragraph] : splitLongParagraph(paragraph)
+    )
+    .map((piece) => piece.trim())
+    .filter(Boolean)
+
+  const chunks: string[] = []
+  let current = ""
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > CHUNK_SIZE) {
+      chunks.push(current)
+      current = current.slice(-CHUNK_OVERLAP)
+    }
+    current = current ? `${current}\n\n${piece}` : piece
+  }
+
+  if (current) {
+    chunks.push(current)
+  }
+
+  return chunks
+}
+
+/**
+ * Replaces a document's chunks with freshly embedded ones and marks it ready.
+ * Safe to re-run: previous chunks are deleted first.
+ */
+export const indexDocument = async (documentId: string) => {
+  const [document] = await db
+    .select()
+    .from(agentDocuments)
+    .where(eq(agentDocuments.id, documentId))
+
+  if (!document) {
+    throw new Error(`Document ${documentId} not found`)
+  }
+
+  if (!document.content) {
+    throw new Error(`Document ${documentId} has no content to index`)
+  }
+
+  const chunks = chunkText(document.content)
+  const embeddings = await embedDocuments(chunks)
+
+  await db.delete(agentDocumentChunks).where(eq(agentDocumentChunks.documentId, documentId))
+
+  const rows = chunks.map((content, position) => ({
+    documentId,
+    agentId: document.agentId,
+    position,
+    content,
+    embedding: embeddings[position],
+  }))
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(agentDocumentChunks).values(rows.slice(i, i + INSERT_BATCH_SIZE))
+  }
+
+  await db
+    .update(agentDocuments)
+    .set({
+      status: DocumentStatus.Ready,
+      error: null,
+      chunkCount: chunks.length,
+      updatedAt: new Date(),
+    })
+    .where(eq(agentDocuments.id, documentId))
+
+  return chunks.length
+}
+
+/**
+ * Copies an agent's indexed documents and their embeddings to another agent,
+ * so a duplicated agent answers from the same knowledge without re-embedding.
+ * Documents still processing or failed are left behind.
+ */
+export const copyAgentKnowledge = async (fromAgentId: string, toAgentId: string) => {
+  const documents = await db
+    .select()
+    .from(agentDocuments)
+    .where(
+      and(
+        eq(agentDocuments.agentId, fromAgentId),
+        eq(agentDocuments.status, DocumentStatus.Ready)
+      )
+    )
+
+  for (const document of documents) {
+    const [copiedDocument] = await db
+      .insert(agentDocuments)
+      .values({
+        agentId: toAgentId,
+        name: document.name,
+        type: document.type,
+        sourceUrl: document.sourceUrl,
+        content: document.content,
+        status: document.status,
+        chunkCount: document.chunkCount,
+      })
+      .returning({ id: agentDocuments.id })
+
+    const chunks = await db
+      .select({
+        position: agentDocumentChunks.position,
+        content: agentDocumentChunks.content,
+        embedding: agentDocumentChunks.embedding,
+      })
+      .from(agentDocumentChunks)
+      .where(eq(agentDocumentChunks.documentId, document.id))
+      .orderBy(asc(agentDocumentChunks.position))
+
+    const rows = chunks.map((chunk) => ({
+      ...chunk,
+      documentId: copiedDocument.id,
+      agentId: toAgentId,
+    }))
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(agentDocumentChunks).values(rows.slice(i, i + INSERT_BATCH_SIZE))
+    }
+  }
+
+  return documents.length
+}
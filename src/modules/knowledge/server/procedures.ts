@@ -0,0 +1,152 @@
+import {z} from "zod"
+import {and, desc, eq, getTableColumns} from "drizzle-orm"
+import { db } from "@/db";
+import { agentDocuments, agents } from "@/db/schema";
+import {createTRPCRouter, protectedProcedure} from "@/trpc/init"
+import { TRPCError } from "@trpc/server";
+import { knowledgeAddTextSchema, knowledgeAddUrlSchema } from "../schemas";
+import { DocumentStatus, DocumentType } from "../types";
+import { queueDocumentIngest } from "./ingest";
+
+const getOwnedAgent = async (agentId: string, userId: string) => {
+  const [existingAgent] = await db
+    .select({ id: agents.id })
+    .from(agents)
+    .where(and(eq(agents.id, agentId), eq(agents.userId, userId)))
+
+  if (!existingAgent) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Agent not found' })
+  }
+
+  return existingAgent
+}
+
+const getOwnedDocument = async (documentId: string, userId: string) => {
+  const [existingDocument] = await db
+    .select(getTableColumns(agentDocuments))
+    .from(agentDocuments)
+    .innerJoin(agents, eq(agentDocuments.agentId, agents.id))
+    .where(and(eq(agentDocuments.id, documentId), eq(agents.userId, userId)))
+
+  if (!existingDocument) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Document not found' })
+  }
+
+  return existingDocument
+}
+
+// The extracted text can be large, so list views leave it out
+const documentListColumns = {
+  id: agentDocuments.id,
+  agentId: agentDocuments.agentId,
+  name: agentDocuments.name,
+  type: agentDocuments.type,
+  sourceUrl: agentDocuments.sourceUrl,
+  status: agentDocuments.status,
+  error: agentDocuments.error,
+  chunkCount: agentDocuments.chunkCount,
+  createdAt: agentDocuments.createdAt,
+  updatedAt: agentDocuments.updatedAt,
+}
+
+export const knowledgeRouter = createTRPCRouter({
+
+  getDocuments: protectedProcedure
+    .input(z.object({ agentId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await getOwnedAgent(input.agentId, ctx.auth.user.id)
+
+      return db
+        .select(documentListColumns)
+        .from(agentDocuments)
+        .where(eq(agentDocuments.agentId, input.agentId))
+        .orderBy(desc(agentDocuments.createdAt), desc(agentDocuments.id))
+    }),
+
+  addText: protectedProcedure
+    .input(knowledgeAddTextSchema)
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedAgent(input.agentId, ctx.auth.user.id)
+
+      const [createdDocument] = await db
+        .insert(agentDocuments)
+        .values({
+          agentId: input.agentId,
+          name: input.name,
+          type: DocumentType.Text,
+          content: input.content,
+        })
+        .returning(documentListColumns)
+
+      await queueDocumentIngest(createdDocument.id)
+
+      return createdDocument
+    }),
+
+  addUrl: protectedProcedure
+    .input(knowledgeAddUrlSchema)
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedAgent(input.agentId, ctx.auth.user.id)
+
+      // The page is fetched in the background; its title replaces this name
+      const [createdDocument] = await db
+        .insert(agentDocuments)
+        .values({
+          agentId: input.agentId,
+          name: input.url,
+          type: DocumentType.Url,
+          sourceUrl: input.url,
+        })
+        .returning(documentListColumns)
+
+      await queueDocumentIngest(createdDocument.id)
+
+      return createdDocument
+    }),
+
+  retry: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existingDocument = await getOwnedDocument(input.id, ctx.auth.user.id)
+
+      if (existingDocument.status !== DocumentStatus.Failed) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Only failed documents can be retried',
+        })
+      }
+
+      const [updatedDocument] = await db
+        .update(agentDocuments)
+        .set({ status: DocumentStatus.Processing, error: null, updatedAt: new Date() })
+        .where(
+          and(
+            eq(agentDocuments.id, input.id),
+            eq(agentDocuments.status, DocumentStatus.Failed)
+          )
+        )
+        .returning(documentListColumns)
+
+      // Another retry got there first
+      if (!updatedDocument) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'Document is already being processed' })
+      }
+
+      await queueDocumentIngest(updatedDocument.id)
+
+      return updatedDocument
+    }),
+
+  remove: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedDocument(input.id, ctx.auth.user.id)
+
+      const [removedDocument] = await db
+        .delete(agentDocuments)
+        .where(eq(agentDocuments.id, input.id))
+        .returning(documentListColumns)
+
+      return removedDocument
+    }),
+})
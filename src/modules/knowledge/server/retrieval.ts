@@ -0,0 +1,70 @@
+import { and, asc, cosineDistance, eq, sql } from "drizzle-orm"
+
+import { db } from "@/db"
+import { agentDocumentChunks, agentDocuments } from "@/db/schema"
+import { embedQuery } from "@/lib/embeddings"
+
+import { DocumentStatus } from "../types"
+
+const DEFAULT_LIMIT = 4
+
+// Cosine similarity below this is usually an unrelated passage
+const MIN_SIMILARITY = 0.5
+
+export interface KnowledgeExcerpt {
+  documentName: string
+  sourceUrl: string | null
+  content: string
+  similarity: number
+}
+
+/**
+ * The agent's document chunks closest to `query`, best first. Agents without
+ * a knowledge base return nothing without spending an embedding call.
+ */
+export const retrieveKnowledge = async (
+  agentId: string,
+  query: string,
+  limit = DEFAULT_LIMIT
+): Promise<KnowledgeExcerpt[]> => {
+  const hasDocuments = await db.$count(
+    agentDocuments,
+    and(eq(agentDocuments.agentId, agentId), eq(agentDocuments.status, DocumentStatus.Ready))
+  )
+  if (!hasDocuments || !query.trim()) {
+    return []
+  }
+
+  const queryEmbedding = await embedQuery(query)
+  // Ordering by the bare distance lets the HNSW index serve the lookup
+  const distance = cosineDistance(agentDocumentChunks.embedding, queryEmbedding)
+  const similarity = sql<number>`1 - (${distance})`
+
+  const excerpts = await db
+    .select({
+      documentName: agentDocuments.name,
+      sourceUrl: agentDocuments.sourceUrl,
+      content: agentDocumentChunks.content,
+      similarity,
+    })
+    .from(agentDocumentChunks)
+    .innerJoin(agentDocuments, eq(agentDocumentChunks.documentId, agentDocuments.id))
+    .where(eq(agentDocumentChunks.agentId, agentId))
+    .orderBy(asc(distance))
+    .limit(limit)
+
+  return excerpts.filter((excerpt) => excerpt.similarity >= MIN_SIMILARITY)
+}
+
+/** Numbered excerpts for a system prompt, with instructions to cite them. */
+export const formatKnowledgeContext = (excerpts: KnowledgeExcerpt[]) => {
+  if (excerpts.length === 0) {
+    return ""
+  }
+
+  const sources = excerpts
+    .map((excerpt, index) => `[${index + 1}] ${excerpt.documentName}\n${excerpt.content}`)
+    .join("\n\n")
+
+  return `Relevant excerpts from your knowledge base:\n\n${sources}\n\nBase factual answers on these excerpts and cite the document you used by name (for example "according to ${excerpts[0].documentName}"). If they do not cover the question, say you are not sure rather than guessing.`
+}
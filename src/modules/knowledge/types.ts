@@ -0,0 +1,18 @@
+import { inferRouterOutputs } from "@trpc/server";
+
+import type { AppRouter } from "@/trpc/routers/_app";
+
+export type KnowledgeGetDocuments = inferRouterOutputs<AppRouter>["knowledge"]["getDocuments"]
+
+export enum DocumentType {
+    Pdf = "pdf",
+    Markdown = "markdown",
+    Text = "text",
+    Url = "url",
+}
+
+export enum DocumentStatus {
+    Processing = "processing",
+    Ready = "ready",
+    Failed = "failed",
+}
@@ -0,0 +1,113 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { toast } from "sonner"
+import z from "zod"
+
+import { useTRPC } from "@/trpc/client"
+import { ResponsiveDialog } from "@/components/responsive-dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Button } from "@/components/ui/button"
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from "@/components/ui/form"
+import { knowledgeAddTextSchema } from "../../schemas"
+
+const addTextFormSchema = knowledgeAddTextSchema.omit({ agentId: true })
+
+interface AddTextDialogProps {
+    agentId: string
+    open: boolean
+    onOpenChange: (open: boolean) => void
+}
+
+export const AddTextDialog = ({ agentId, open, onOpenChange }: AddTextDialogProps) => {
+    const trpc = useTRPC()
+    const queryClient = useQueryClient()
+
+    const form = useForm<z.infer<typeof addTextFormSchema>>({
+        resolver: zodResolver(addTextFormSchema),
+        defaultValues: {
+            name: "",
+            content: "",
+        },
+    })
+
+    const addText = useMutation(
+        trpc.knowledge.addText.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(
+                    trpc.knowledge.getDocuments.queryOptions({ agentId }),
+                )
+                form.reset()
+                onOpenChange(false)
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
+    const onSubmit = (values: z.infer<typeof addTextFormSchema>) => {
+        addText.mutate({ agentId, ...values })
+    }
+
+    return (
+        <ResponsiveDialog
+            title="Add text"
+            description="Paste notes, FAQs or docs for this agent to draw on"
+            open={open}
+            onOpenChange={onOpenChange}
+        >
+            <Form {...form}>
+                <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+                    <FormField
+                        name="name"
+                        control={form.control}
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Name</FormLabel>
+                                <FormControl>
+                                    <Input {...field} placeholder="e.g. Pricing FAQ" />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        name="content"
+                        control={form.control}
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Content</FormLabel>
+                                <FormControl>
+                                    <Textarea {...field} className="max-h-80" rows={10} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <div className="flex justify-end gap-x-2">
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            disabled={addText.isPending}
+                            onClick={() => onOpenChange(false)}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={addText.isPending}>
+                            Add
+                        </Button>
+                    </div>
+                </form>
+            </Form>
+        </ResponsiveDialog>
+    )
+}
@@ -0,0 +1,80 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { toast } from "sonner"
+import { GlobeIcon } from "lucide-react"
+import z from "zod"
+
+import { useTRPC } from "@/trpc/client"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormMessage,
+} from "@/components/ui/form"
+import { knowledgeAddUrlSchema } from "../../schemas"
+
+const addUrlFormSchema = knowledgeAddUrlSchema.omit({ agentId: true })
+
+interface AddUrlFormProps {
+    agentId: string
+}
+
+export const AddUrlForm = ({ agentId }: AddUrlFormProps) => {
+    const trpc = useTRPC()
+    const queryClient = useQueryClient()
+
+    const form = useForm<z.infer<typeof addUrlFormSchema>>({
+        resolver: zodResolver(addUrlFormSchema),
+        defaultValues: {
+            url: "",
+        },
+    })
+
+    const addUrl = useMutation(
+        trpc.knowledge.addUrl.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(
+                    trpc.knowledge.getDocuments.queryOptions({ agentId }),
+                )
+                form.reset()
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
+    const onSubmit = (values: z.infer<typeof addUrlFormSchema>) => {
+        addUrl.mutate({ agentId, ...values })
+    }
+
+    return (
+        <Form {...form}>
+            <form
+                className="flex flex-1 gap-2 items-start"
+                onSubmit={form.handleSubmit(onSubmit)}
+            >
+                <FormField
+                    name="url"
+                    control={form.control}
+                    render={({ field }) => (
+                        <FormItem className="flex-1">
+                            <FormControl>
+                                <Input {...field} type="url" placeholder="https://docs.example.com/pricing" />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <Button type="submit" variant="outline" disabled={addUrl.isPending}>
+                    <GlobeIcon />
+                    Add URL
+                </Button>
+            </form>
+        </Form>
+    )
+}
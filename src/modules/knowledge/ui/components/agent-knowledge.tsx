@@ -0,0 +1,204 @@
+import { useRef, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { BookOpenIcon, FileTextIcon, RotateCcwIcon, TrashIcon, UploadIcon } from "lucide-react"
+
+import { useTRPC } from "@/trpc/client"
+import { useConfirm } from "@/hooks/use-confirm"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { DOCUMENT_TYPE_LABELS, DOCUMENT_TYPES_BY_EXTENSION, MAX_DOCUMENT_SIZE_BYTES } from "../../constants"
+import { DocumentStatus, DocumentType } from "../../types"
+import { AddTextDialog } from "./add-text-dialog"
+import { AddUrlForm } from "./add-url-form"
+
+// Indexing usually takes a few seconds; poll until every document settles
+const PROCESSING_REFETCH_INTERVAL_MS = 3000
+
+const STATUS_CLASSES: Record<DocumentStatus, string> = {
+    [DocumentStatus.Processing]: "bg-yellow-500/20 text-yellow-800 border-yellow-800/5",
+    [DocumentStatus.Ready]: "bg-emerald-500/20 text-emerald-800 border-emerald-800/5",
+    [DocumentStatus.Failed]: "bg-rose-500/20 text-rose-800 border-rose-800/5",
+}
+
+interface Props {
+    agentId: string
+}
+
+export const AgentKnowledge = ({ agentId }: Props) => {
+    const trpc = useTRPC()
+    const queryClient = useQueryClient()
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    const [addTextDialogOpen, setAddTextDialogOpen] = useState(false)
+
+    const [RemoveConfirmation, confirmRemove] = useConfirm(
+        "Remove document?",
+        "The agent will no longer be able to answer from it"
+    )
+
+    const documentsQueryOptions = trpc.knowledge.getDocuments.queryOptions({ agentId })
+
+    const { data: documents } = useQuery({
+        ...documentsQueryOptions,
+        refetchInterval: (query) =>
+            query.state.data?.some((document) => document.status === DocumentStatus.Processing)
+                ? PROCESSING_REFETCH_INTERVAL_MS
+                : false,
+    })
+
+    const uploadFile = useMutation({
+        mutationFn: async (file: File) => {
+            const formData = new FormData()
+            formData.append("file", file)
+
+            const response = await fetch(`/api/agents/${agentId}/documents`, {
+                method: "POST",
+                body: formData,
+            })
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => null)
+                throw new Error(body?.error ?? "Upload failed")
+            }
+        },
+        onSuccess: async () => {
+            await queryClient.invalidateQueries(documentsQueryOptions)
+        },
+        onError: (error) => {
+            toast.error(error.message)
+        },
+    })
+
+    const retryDocument = useMutation(
+        trpc.knowledge.retry.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(documentsQueryOptions)
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
+    const removeDocument = useMutation(
+        trpc.knowledge.remove.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(documentsQueryOptions)
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0]
+        event.target.value = ""
+
+        if (!file) return
+
+        if (file.size > MAX_DOCUMENT_SIZE_BYTES) {
+            toast.error("File is larger than 10 MB")
+            return
+        }
+
+        uploadFile.mutate(file)
+    }
+
+    const handleRemove = async (id: string) => {
+        const ok = await confirmRemove()
+
+        if (!ok) return
+
+        await removeDocument.mutateAsync({ id })
+    }
+
+    return (
+        <>
+            <RemoveConfirmation />
+            <AddTextDialog
+                agentId={agentId}
+                open={addTextDialogOpen}
+                onOpenChange={setAddTextDialogOpen}
+            />
+            <div className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-4">
+                <div className="flex items-center gap-x-2">
+                    <BookOpenIcon className="size-4" />
+                    <h6 className="font-medium">Knowledge</h6>
+                </div>
+                <div className="flex flex-col gap-2 md:flex-row md:items-start">
+                    <AddUrlForm agentId={agentId} />
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        className="hidden"
+                        accept={Object.keys(DOCUMENT_TYPES_BY_EXTENSION).join(",")}
+                        onChange={handleFileChange}
+                    />
+                    <Button
+                        variant="outline"
+                        disabled={uploadFile.isPending}
+                        onClick={() => fileInputRef.current?.click()}
+                    >
+                        <UploadIcon />
+                        {uploadFile.isPending ? "Uploading..." : "Upload file"}
+                    </Button>
+                    <Button variant="outline" onClick={() => setAddTextDialogOpen(true)}>
+                        <FileTextIcon />
+                        Add text
+                    </Button>
+                </div>
+                {documents?.length ? (
+                    <ul className="flex flex-col divide-y">
+                        {documents.map((document) => (
+                            <li key={document.id} className="flex items-center gap-x-3 py-2">
+                                <div className="flex flex-col flex-1 min-w-0">
+                                    <span className="text-sm font-medium truncate">{document.name}</span>
+                                    <span className="text-xs text-muted-foreground truncate">
+                                        {DOCUMENT_TYPE_LABELS[document.type as DocumentType]}
+                                        {document.status === DocumentStatus.Ready &&
+                                            ` · ${document.chunkCount} ${document.chunkCount === 1 ? "passage" : "passages"}`}
+                                        {document.status === DocumentStatus.Failed && document.error &&
+                                            ` · ${document.error}`}
+                                    </span>
+                                </div>
+                                <Badge
+                                    variant="outline"
+                                    className={cn("capitalize", STATUS_CLASSES[document.status as DocumentStatus])}
+                                >
+                                    {document.status}
+                                </Badge>
+                                {document.status === DocumentStatus.Failed && (
+                                    <Button
+                                        size="icon"
+                                        variant="ghost"
+                                        title="Retry"
+                                        disabled={retryDocument.isPending}
+                                        onClick={() => retryDocument.mutate({ id: document.id })}
+                                    >
+                                        <RotateCcwIcon />
+                                    </Button>
+                                )}
+                                <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    title="Remove document"
+                                    disabled={removeDocument.isPending}
+                                    onClick={() => handleRemove(document.id)}
+                                >
+                                    <TrashIcon />
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        Add PDFs, markdown, text or web pages. The agent looks up relevant passages while it answers and cites them
+                    </p>
+                )}
+            </div>
+        </>
+    )
+}
@@ -0,0 +1,47 @@
+import {
+    CircleCheckIcon,
+    CircleXIcon,
+    ClockArrowUpIcon,
+    LoaderIcon
+} from "lucide-react"
+
+import { AgentTurnPolicy } from "./types"
+
+// Agents that can join a meeting besides the lead agent
+export const MAX_ADDITIONAL_AGENTS = 4
+
+export const TURN_POLICY_LABELS: Record<AgentTurnPolicy, { label: string, description: string }> = {
+    [AgentTurnPolicy.Addressed]: {
+        label: "Respond when named",
+        description: "Agents answer when addressed by name; the lead agent answers otherwise",
+    },
+    [AgentTurnPolicy.RoundRobin]: {
+        label: "Round-robin",
+        description: "Agents take turns answering, starting with the lead agent",
+    },
+    [AgentTurnPolicy.Moderator]: {
+        label: "Moderator decides",
+        description: "The lead agent picks who is best placed to answer each turn",
+    },
+}
+
+// Delimiters Postgres wraps search matches in (ts_headline StartSel/StopSel).
+// Unlikely in meeting text, so the client can split on them instead of parsing HTML
+export const SEARCH_HIGHLIGHT_START = "⟦"
+export const SEARCH_HIGHLIGHT_END = "⟧"
+
+export const statusIconMap = {
+    upcoming: ClockArrowUpIcon,
+    active: LoaderIcon,
+    completed: CircleCheckIcon,
+    processing: LoaderIcon,
+    cancelled: CircleXIcon
+}
+
+export const statusColorMap = {
+  upcoming: 'bg-yellow-500/20 text-yellow-800 border-yellow-800/5',
+  active: 'bg-blue-500/20 text-blue-800 border-blue-800/5',
+  completed: 'bg-emerald-500/20 text-emerald-800 border-emerald-800/5',
+  processing: 'bg-gray-500/20 text-gray-800 border-gray-800/5',
+  cancelled: 'bg-rose-500/20 text-rose-800 border-rose-800/5',
+}
@@ -2,7 +2,7 @@ import { parseAsInteger, parseAsString, useQueryStates, parseAsStringEnum } from
 
 import { DEFAULT_PAGE } from "@/constant"
 
-import { MeetingStatus } from "../types"
+import { MeetingSearchMode, MeetingSort, MeetingStatus } from "../types"
 
 export const useMeetingsFilters = () => {
     return useQueryStates({
@@ -10,6 +10,8 @@ export const useMeetingsFilters = () => {
         page: parseAsInteger.withDefault(DEFAULT_PAGE).withOptions({clearOnDefault: true}),
         status: parseAsStringEnum(Object.values(MeetingStatus)),
         agentId: parseAsString.withDefault("").withOptions({clearOnDefault: true}),
+        sort: parseAsStringEnum(Object.values(MeetingSort)).withDefault(MeetingSort.Newest).withOptions({clearOnDefault: true}),
+        searchMode: parseAsStringEnum(Object.values(MeetingSearchMode)).withDefault(MeetingSearchMode.Name).withOptions({clearOnDefault: true}),
     })
 }
 
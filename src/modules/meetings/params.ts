@@ -2,13 +2,15 @@ import { createLoader, parseAsInteger, parseAsString, parseAsStringEnum } from "
 
 import { DEFAULT_PAGE } from "@/constant"
 
-import { MeetingStatus } from "./types"
+import { MeetingSearchMode, MeetingSort, MeetingStatus } from "./types"
 
 export const filterSearchParams = {
     search: parseAsString.withDefault("").withOptions({clearOnDefault: true}),
     page: parseAsInteger.withDefault(DEFAULT_PAGE).withOptions({clearOnDefault: true}),
     status: parseAsStringEnum(Object.values(MeetingStatus)),
     agentId: parseAsString.withDefault("").withOptions({ clearOnDefault: true }),
+    sort: parseAsStringEnum(Object.values(MeetingSort)).withDefault(MeetingSort.Newest).withOptions({ clearOnDefault: true }),
+    searchMode: parseAsStringEnum(Object.values(MeetingSearchMode)).withDefault(MeetingSearchMode.Name).withOptions({ clearOnDefault: true }),
 }
 
 export const loadSearchParams = createLoader(filterSearchParams)
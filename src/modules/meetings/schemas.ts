@@ -1,11 +1,27 @@
 import {z} from "zod"
+import { isValidTimeZone } from "@/lib/timezone"
+import { MAX_ADDITIONAL_AGENTS } from "./constants"
+import { AgentTurnPolicy } from "./types"
 
 export const meetingsInsertSchema = z.object({
     name: z.string().min(1, {message: "Name is required"}),
     agentId: z.string().min(1, {message: "Agent is required"}),  
+    additionalAgentIds: z.array(z.string()).max(MAX_ADDITIONAL_AGENTS, {message: `Up to ${MAX_ADDITIONAL_AGENTS} additional agents`}),
+    turnPolicy: z.enum(AgentTurnPolicy),
+    scheduledStartAt: z.iso.datetime().nullish(),
+    scheduledDurationMinutes: z.number().int().min(5).max(480),
+    timezone: z.string()
+        .min(1, {message: "Timezone is required"})
+        .refine(isValidTimeZone, {message: "Unknown timezone"}),
 })
 
 export const meetingsUpdateSchema = meetingsInsertSchema.extend({
     id: z.string().min(1, {message: "Id is required"})
 })
 
+
+
+export const meetingsCancelSchema = z.object({
+    id: z.string().min(1, {message: "Id is required"}),
+    reason: z.string().trim().max(500, {message: "Reason is too long"}).optional(),
+})
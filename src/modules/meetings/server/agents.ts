@@ -0,0 +1,55 @@
+import { and, asc, eq, getTableColumns, inArray } from "drizzle-orm"
+import { TRPCError } from "@trpc/server"
+
+import { db } from "@/db"
+import { agents, meetingAgents } from "@/db/schema"
+
+type Agent = typeof agents.$inferSelect
+
+/** Every agent in a meeting: the lead agent first, then the additional ones in order. */
+export const getMeetingAgents = async (meeting: { id: string, agentId: string }): Promise<Agent[]> => {
+  const [leadAgent] = await db
+    .select()
+    .from(agents)
+    .where(eq(agents.id, meeting.agentId))
+
+  const additionalAgents = await db
+    .select(getTableColumns(agents))
+    .from(meetingAgents)
+    .innerJoin(agents, eq(meetingAgents.agentId, agents.id))
+    .where(eq(meetingAgents.meetingId, meeting.id))
+    .orderBy(asc(meetingAgents.position))
+
+  return leadAgent ? [leadAgent, ...additionalAgents] : additionalAgents
+}
+
+/** Throws unless every agent exists and belongs to the user. */
+export const assertAgentsOwned = async (agentIds: string[], userId: string) => {
+  const uniqueIds = [...new Set(agentIds)]
+
+  const ownedAgents = await db
+    .select({ id: agents.id })
+    .from(agents)
+    .where(and(inArray(agents.id, uniqueIds), eq(agents.userId, userId)))
+
+  if (ownedAgents.length !== uniqueIds.length) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Agent not found" })
+  }
+}
+
+/** Replaces the additional agents of a meeting, skipping the lead agent and duplicates. */
+export const setAdditionalAgents = async (
+  meetingId: string,
+  leadAgentId: string,
+  agentIds: string[]
+) => {
+  const additionalIds = [...new Set(agentIds)].filter((id) => id !== leadAgentId)
+
+  await db.delete(meetingAgents).where(eq(meetingAgents.meetingId, meetingId))
+
+  if (additionalIds.length === 0) return
+
+  await db.insert(meetingAgents).values(
+    additionalIds.map((agentId, position) => ({ meetingId, agentId, position }))
+  )
+}
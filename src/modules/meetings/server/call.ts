@@ -0,0 +1,44 @@
+import { streamVideo } from "@/lib/stream-video";
+import { generatedAvatarUri } from "@/lib/avatar";
+import { getMeetingAgents } from "./agents";
+
+type Meeting = { id: string, name: string, agentId: string }
+
+/** Creates the Stream call for a new meeting and registers its agents as Stream users. */
+export const createMeetingCall = async (meeting: Meeting, createdById: string) => {
+  const call = streamVideo.video.call("default", meeting.id)
+  await call.create({
+    data: {
+      created_by_id: createdById,
+      custom: {
+        meetingId: meeting.id,
+        meetingName: meeting.name
+      },
+      settings_override: {
+        transcription: {
+          language: "en",
+          mode: "auto-on",
+          closed_caption_mode: "auto-on",
+        },
+        recording: {
+          mode: "auto-on",
+          quality: "1080p",
+        }
+      }
+    }
+  })
+
+  const meetingAgentList = await getMeetingAgents(meeting)
+
+  await streamVideo.upsertUsers(
+    meetingAgentList.map((agent) => ({
+      id: agent.id,
+      name: agent.name,
+      role: "user",
+      image: generatedAvatarUri({
+        seed: agent.name,
+        variant: "botttsNeutral",
+      })
+    }))
+  )
+}
@@ -1,14 +1,19 @@
 import {z} from "zod"
-import {and, count, desc, eq, getTableColumns, ilike, sql} from "drizzle-orm"
+import {and, asc, count, desc, eq, getTableColumns, ilike, sql} from "drizzle-orm"
 import { db } from "@/db";
-import { agents, meetings } from "@/db/schema";
+import { agents, agentToolInvocations, meetingAgents, meetings, meetingStatusEvents, user } from "@/db/schema";
 import {createTRPCRouter, protectedProcedure} from "@/trpc/init"
 import { TRPCError } from "@trpc/server";
 import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, MIN_PAGE_SIZE } from "@/constant";
-import { meetingsInsertSchema, meetingsUpdateSchema } from "../schemas";
-import { MeetingStatus } from "../types";
+import { meetingsCancelSchema, meetingsInsertSchema, meetingsUpdateSchema } from "../schemas";
+import { MeetingSearchMode, MeetingSort, MeetingStatus } from "../types";
 import { streamVideo } from "@/lib/stream-video";
 import { generatedAvatarUri } from "@/lib/avatar";
+import { recordMeetingCreated, transitionMeetingStatus } from "./status";
+import { getTranscriptWithSpeakers } from "./transcript";
+import { getMeetingSearch } from "./search";
+import { createMeetingCall } from "./call";
+import { assertAgentsOwned, setAdditionalAgents } from "./agents";
 
 export const meetingsRouter = createTRPCRouter({
 
@@ -56,7 +61,116 @@ export const meetingsRouter = createTRPCRouter({
           throw new TRPCError({ code: 'NOT_FOUND', message: 'Meeting not found' })
         }
 
-      return existingMeeting
+      const additionalAgents = await db
+        .select({ id: agents.id, name: agents.name })
+        .from(meetingAgents)
+        .innerJoin(agents, eq(meetingAgents.agentId, agents.id))
+        .where(eq(meetingAgents.meetingId, existingMeeting.id))
+        .orderBy(asc(meetingAgents.position))
+
+      return { ...existingMeeting, additionalAgents }
+    }),
+
+  getTranscript: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const [existingMeeting] = await db
+        .select()
+        .from(meetings)
+        .where(
+          and(eq(meetings.id, input.id), eq(meetings.userId, ctx.auth.user.id))
+        )
+
+      if (!existingMeeting) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Meeting not found' })
+      }
+
+      return getTranscriptWithSpeakers(existingMeeting)
+    }),
+
+  getRecordingUrl: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const [existingMeeting] = await db
+        .select()
+        .from(meetings)
+        .where(
+          and(eq(meetings.id, input.id), eq(meetings.userId, ctx.auth.user.id))
+        )
+
+      if (!existingMeeting) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Meeting not found' })
+      }
+
+      if (!existingMeeting.recordingUrl) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Recording not available' })
+      }
+
+      // The stored URL is signed and expires, so ask Stream to sign a new one
+      const { recordings } = await streamVideo.video
+        .call("default", existingMeeting.id)
+        .listRecordings()
+
+      const storedPath = existingMeeting.recordingUrl.split("?")[0]
+      const recording =
+        recordings.find((recording) => recording.url.split("?")[0] === storedPath) ??
+        recordings.toSorted((a, b) => new Date(b.end_time).getTime() - new Date(a.end_time).getTime())[0]
+
+      if (!recording) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Recording not available' })
+      }
+
+      return { url: recording.url }
+    }),
+
+  getStatusEvents: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const [existingMeeting] = await db
+        .select({ id: meetings.id })
+        .from(meetings)
+        .where(
+          and(eq(meetings.id, input.id), eq(meetings.userId, ctx.auth.user.id))
+        )
+
+      if (!existingMeeting) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Meeting not found' })
+      }
+
+      return db
+        .select({
+          ...getTableColumns(meetingStatusEvents),
+          actorName: user.name,
+        })
+        .from(meetingStatusEvents)
+        .leftJoin(user, eq(meetingStatusEvents.actorId, user.id))
+        .where(eq(meetingStatusEvents.meetingId, input.id))
+        .orderBy(asc(meetingStatusEvents.createdAt))
+    }),
+
+  getToolInvocations: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const [existingMeeting] = await db
+        .select({ id: meetings.id })
+        .from(meetings)
+        .where(
+          and(eq(meetings.id, input.id), eq(meetings.userId, ctx.auth.user.id))
+        )
+
+      if (!existingMeeting) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Meeting not found' })
+      }
+
+      return db
+        .select({
+          ...getTableColumns(agentToolInvocations),
+          agentName: agents.name,
+        })
+        .from(agentToolInvocations)
+        .leftJoin(agents, eq(agentToolInvocations.agentId, agents.id))
+        .where(eq(agentToolInvocations.meetingId, input.id))
+        .orderBy(asc(agentToolInvocations.createdAt))
     }),
 
     getMany: protectedProcedure
@@ -79,12 +193,28 @@ export const meetingsRouter = createTRPCRouter({
               MeetingStatus.Cancelled,
             ])
             .nullish(),
+          sort: z.enum(MeetingSort).default(MeetingSort.Newest),
+          searchMode: z.enum(MeetingSearchMode).default(MeetingSearchMode.Name),
         })
       )
       
       .query(async ({ ctx, input }) => {
     
-        const { search, page, pageSize, status, agentId } = input
+        const { search, page, pageSize, status, agentId, sort, searchMode } = input
+
+        const contentSearch =
+          search && searchMode === MeetingSearchMode.Content
+            ? getMeetingSearch(search)
+            : null
+
+        const where = and(
+          eq(meetings.userId, ctx.auth.user.id),
+          contentSearch
+            ? contentSearch.where
+            : search ? ilike(meetings.name, `%${search}%`) : undefined,
+          status ? eq(meetings.status, status) : undefined,
+          agentId ? eq(meetings.agentId, agentId) : undefined,
+        )
     
         const data = await db
           .select({
@@ -94,18 +224,21 @@ export const meetingsRouter = createTRPCRouter({
               sql<number>`EXTRACT(EPOCH FROM(ended_at - started_at))`.as(
                 'duration'
               ),
+            searchRank: contentSearch?.rank ?? sql<number | null>`null`,
+            highlightedName: contentSearch?.highlightedName ?? sql<string | null>`null`,
+            searchSnippet: contentSearch?.snippet ?? sql<string | null>`null`,
           })
           .from(meetings)
           .innerJoin(agents, eq(meetings.agentId, agents.id))
-          .where(
-            and(
-              eq(meetings.userId, ctx.auth.user.id),
-              search ? ilike(meetings.name, `%${search}%`) : undefined,
-              status ? eq(meetings.status, status) : undefined,
-              agentId ? eq(meetings.agentId, agentId) : undefined,
-            )
+          .where(where)
+          .orderBy(
+            ...(contentSearch ? [sql`${contentSearch.rank} desc`] : []),
+            ...(sort === MeetingSort.Scheduled
+              ? [sql`${meetings.scheduledStartAt} asc nulls last`]
+              : []),
+            desc(meetings.createdAt),
+            desc(meetings.id)
           )
-          .orderBy(desc(meetings.createdAt), desc(meetings.id))
           .limit(pageSize)
           .offset((page - 1) * pageSize)
     
@@ -113,14 +246,7 @@ export const meetingsRouter = createTRPCRouter({
           .select({ count: count() })
           .from(meetings)
           .innerJoin(agents, eq(meetings.agentId, agents.id))
-          .where(
-            and(
-              eq(meetings.userId, ctx.auth.user.id),
-              search ? ilike(meetings.name, `%${search}%`) : undefined,
-              status ? eq(meetings.status, status) : undefined,
-              agentId ? eq(meetings.agentId, agentId) : undefined
-            )
-          )
+          .where(where)
           const totalPages = Math.ceil(total.count / pageSize)
     
           return {
@@ -133,59 +259,23 @@ export const meetingsRouter = createTRPCRouter({
     create: protectedProcedure
         .input(meetingsInsertSchema)
         .mutation(async ({ input, ctx }) => {
+          const { additionalAgentIds, ...values } = input
+
+          await assertAgentsOwned([input.agentId, ...additionalAgentIds], ctx.auth.user.id)
+
           const [createdMeeting] = await db
             .insert(meetings)
             .values({
-              ...input,
+              ...values,
+              scheduledStartAt: input.scheduledStartAt ? new Date(input.scheduledStartAt) : null,
               userId: ctx.auth.user.id,
             })
             .returning()
 
-            const call = streamVideo.video.call("default", createdMeeting.id)
-            await call.create({
-              data: {
-                created_by_id: ctx.auth.user.id,
-                custom: {
-                  meetingId: createdMeeting.id,
-                  meetingName: createdMeeting.name
-                },
-                settings_override: {
-                  transcription: {
-                    language: "en",
-                    mode: "auto-on",
-                    closed_caption_mode: "auto-on",
-                  },
-                  recording: {
-                    mode: "auto-on",
-                    quality: "1080p",
-                  }
-                }
-              }
-            })
+            await setAdditionalAgents(createdMeeting.id, createdMeeting.agentId, additionalAgentIds)
+            await recordMeetingCreated(createdMeeting, { type: "user", id: ctx.auth.user.id })
 
-            const [existingAgent] = await db 
-              .select()
-              .from(agents)
-              .where(eq(agents.id, createdMeeting.agentId))
-
-              if(!existingAgent) {
-                throw new TRPCError({
-                  code: "NOT_FOUND",
-                  message: "Agent not found",
-                })
-              }
-
-              await streamVideo.upsertUsers([
-                {
-                  id: existingAgent.id,
-                  name: existingAgent.name,
-                  role: "user",
-                  image: generatedAvatarUri({
-                    seed: existingAgent.name,
-                    variant: "botttsNeutral",
-                  })
-                }
-              ])
+            await createMeetingCall(createdMeeting, ctx.auth.user.id)
 
           return createdMeeting
         }),
@@ -193,9 +283,16 @@ export const meetingsRouter = createTRPCRouter({
     update: protectedProcedure
     .input(meetingsUpdateSchema)
         .mutation(async ({ctx, input}) => {
+          const { additionalAgentIds, ...values } = input
+
+          await assertAgentsOwned([input.agentId, ...additionalAgentIds], ctx.auth.user.id)
+
           const [updatedMeeting] = await db
             .update(meetings)
-            .set(input)
+            .set({
+              ...values,
+              scheduledStartAt: input.scheduledStartAt ? new Date(input.scheduledStartAt) : null,
+            })
             .where(
               and(
                 eq(meetings.id, input.id),
@@ -210,6 +307,48 @@ export const meetingsRouter = createTRPCRouter({
               message: 'Meeting not found',
             })
           }
+
+          await setAdditionalAgents(updatedMeeting.id, updatedMeeting.agentId, additionalAgentIds)
+        }),
+
+    cancel: protectedProcedure
+    .input(meetingsCancelSchema)
+        .mutation(async ({ctx, input}) => {
+          const result = await transitionMeetingStatus(input.id, MeetingStatus.Cancelled, {
+            actor: { type: "user", id: ctx.auth.user.id },
+            cause: "meetings.cancel",
+            userId: ctx.auth.user.id,
+            set: {
+              cancelledAt: new Date(),
+              cancelledBy: ctx.auth.user.id,
+              cancellationReason: input.reason || null,
+            },
+          })
+
+          if (!result.ok) {
+            if (result.reason === "not_found") {
+              throw new TRPCError({
+                code: 'NOT_FOUND',
+                message: 'Meeting not found',
+              })
+            }
+
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Only upcoming meetings can be cancelled (this one is ${result.current})`,
+            })
+          }
+
+          const cancelledMeeting = result.meeting
+
+          try {
+            await streamVideo.video.call("default", cancelledMeeting.id).end()
+          } catch (error) {
+            // The call may never have been joined; the meeting is cancelled regardless
+            console.warn(`[Meetings] Failed to end Stream call ${cancelledMeeting.id}:`, error)
+          }
+
+          return cancelledMeeting
         }),
 
     remove: protectedProcedure
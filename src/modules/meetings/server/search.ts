@@ -0,0 +1,55 @@
+import { and, eq, ilike, or, sql } from "drizzle-orm"
+
+import {
+  meetings,
+  meetingSearchDocument,
+  transcriptSearchDocument,
+  transcriptSegments,
+} from "@/db/schema"
+
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START } from "../constants"
+
+const HIGHLIGHT_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}`
+const SNIPPET_OPTIONS = `${HIGHLIGHT_OPTIONS}, MinWords=8, MaxWords=24, MaxFragments=1`
+
+/**
+ * SQL for ranked full-text search over meeting names, summaries and stored
+ * transcript segments, using the expressions the GIN indexes are built on.
+ */
+export const getMeetingSearch = (search: string) => {
+  const query = sql`websearch_to_tsquery('english', ${search})`
+  const meetingDocument = meetingSearchDocument(meetings)
+  const segmentDocument = transcriptSearchDocument(transcriptSegments)
+  const segmentMatches = and(
+    eq(transcriptSegments.meetingId, meetings.id),
+    sql`${segmentDocument} @@ ${query}`
+  )
+
+  const summaryMatches = sql`to_tsvector('english', coalesce(${meetings.summary}, '')) @@ ${query}`
+  const bestSegmentHeadline = sql`(
+    select ts_headline('english', ${transcriptSegments.text}, ${query}, ${SNIPPET_OPTIONS})
+    from ${transcriptSegments}
+    where ${segmentMatches}
+    order by ts_rank(${segmentDocument}, ${query}) desc
+    limit 1
+  )`
+
+  return {
+    // Plain substring match on the name too, so partial words still find something
+    where: or(
+      ilike(meetings.name, `%${search}%`),
+      sql`${meetingDocument} @@ ${query}`,
+      sql`exists (select 1 from ${transcriptSegments} where ${segmentMatches})`
+    ),
+    rank: sql<number>`(ts_rank(${meetingDocument}, ${query}) + coalesce((
+      select max(ts_rank(${segmentDocument}, ${query}))
+      from ${transcriptSegments}
+      where ${segmentMatches}
+    ), 0))`,
+    highlightedName: sql<string>`ts_headline('english', ${meetings.name}, ${query}, ${`${HIGHLIGHT_OPTIONS}, HighlightAll=true`})`,
+    snippet: sql<string | null>`coalesce(
+      case when ${summaryMatches} then ts_headline('english', ${meetings.summary}, ${query}, ${SNIPPET_OPTIONS}) end,
+      ${bestSegmentHeadline}
+    )`,
+  }
+}
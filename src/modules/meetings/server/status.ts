@@ -0,0 +1,112 @@
+import { and, eq } from "drizzle-orm"
+
+import { db } from "@/db"
+import { meetings, meetingStatusEvents } from "@/db/schema"
+
+import { MeetingStatus } from "../types"
+
+/** Every status change a meeting may make; anything else is rejected. */
+export const MEETING_STATUS_TRANSITIONS: Record<MeetingStatus, MeetingStatus[]> = {
+  [MeetingStatus.Upcoming]: [MeetingStatus.Active, MeetingStatus.Cancelled],
+  [MeetingStatus.Active]: [MeetingStatus.Processing],
+  [MeetingStatus.Processing]: [MeetingStatus.Completed],
+  [MeetingStatus.Completed]: [],
+  [MeetingStatus.Cancelled]: [],
+}
+
+export type MeetingStatusActor =
+  | { type: "user"; id: string }
+  | { type: "system" }
+
+type Meeting = typeof meetings.$inferSelect
+
+interface TransitionOptions {
+  actor: MeetingStatusActor
+  // What triggered the change, e.g. a webhook event type or a procedure name
+  cause: string
+  // Extra columns written in the same update as the status
+  set?: Partial<Omit<typeof meetings.$inferInsert, "id" | "status">>
+  // Restrict the lookup to meetings owned by this user
+  userId?: string
+}
+
+export type TransitionResult =
+  | { ok: true; meeting: Meeting; from: MeetingStatus }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "invalid_transition"; current: MeetingStatus }
+
+const MAX_ATTEMPTS = 3
+
+export const canTransition = (from: MeetingStatus, to: MeetingStatus) =>
+  MEETING_STATUS_TRANSITIONS[from].includes(to)
+
+/**
+ * Moves a meeting to `to` if the machine allows it from the current status and
+ * records the change in `meeting_status_events`.
+ *
+ * The update is conditional on the status that was read, so two writers racing
+ * on the same meeting cannot both apply a transition from the same state.
+ */
+export const transitionMeetingStatus = async (
+  meetingId: string,
+  to: MeetingStatus,
+  { actor, cause, set, userId }: TransitionOptions
+): Promise<TransitionResult> => {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const [current] = await db
+      .select({ status: meetings.status })
+      .from(meetings)
+      .where(
+        and(
+          eq(meetings.id, meetingId),
+          userId ? eq(meetings.userId, userId) : undefined
+        )
+      )
+
+    if (!current) {
+      return { ok: false, reason: "not_found" }
+    }
+
+    const from = current.status as MeetingStatus
+    if (!canTransition(from, to)) {
+      return { ok: false, reason: "invalid_transition", current: from }
+    }
+
+    const [meeting] = await db
+      .update(meetings)
+      .set({ ...set, status: to, updatedAt: new Date() })
+      .where(and(eq(meetings.id, meetingId), eq(meetings.status, from)))
+      .returning()
+
+    // Someone else changed the status between the read and the update
+    if (!meeting) continue
+
+    await db.insert(meetingStatusEvents).values({
+      meetingId,
+      fromStatus: from,
+      toStatus: to,
+      actorType: actor.type,
+      actorId: actor.type === "user" ? actor.id : null,
+      cause,
+    })
+
+    return { ok: true, meeting, from }
+  }
+
+  throw new Error(`Meeting ${meetingId} status kept changing while moving to ${to}`)
+}
+
+/** Records the initial status of a freshly created meeting. */
+export const recordMeetingCreated = async (
+  meeting: Meeting,
+  actor: MeetingStatusActor
+) => {
+  await db.insert(meetingStatusEvents).values({
+    meetingId: meeting.id,
+    fromStatus: null,
+    toStatus: meeting.status,
+    actorType: actor.type,
+    actorId: actor.type === "user" ? actor.id : null,
+    cause: "meetings.create",
+  })
+}
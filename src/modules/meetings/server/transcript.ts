@@ -0,0 +1,161 @@
+import { asc, eq, inArray } from "drizzle-orm"
+import JSONL from "jsonl-parse-stringify"
+
+import { db } from "@/db"
+import { agents, meetingParticipants, transcriptSegments, user } from "@/db/schema"
+import { generatedAvatarUri } from "@/lib/avatar"
+import { GUEST_USER_ID_PREFIX, getGuestUserId } from "@/modules/participants/constants"
+
+import { StreamTranscriptItem } from "../types"
+
+// Keeps each insert well under the HTTP driver's request size limit
+const INSERT_BATCH_SIZE = 500
+
+interface TranscriptSource {
+  id: string
+  transcriptUrl: string | null
+}
+
+/** Downloads and parses a Stream transcript (JSONL). */
+export const fetchStreamTranscript = async (transcriptUrl: string) => {
+  const response = await fetch(transcriptUrl)
+  if (!response.ok) {
+    throw new Error(`Transcript fetch failed with status ${response.status}`)
+  }
+
+  return JSONL.parse<StreamTranscriptItem>(await response.text())
+}
+
+/** Stores transcript lines; lines that were already saved are left untouched. */
+export const saveTranscriptSegments = async (
+  meetingId: string,
+  items: StreamTranscriptItem[]
+) => {
+  const rows = items.map((item, position) => ({
+    meetingId,
+    position,
+    speakerId: item.speaker_id,
+    type: item.type,
+    text: item.text,
+    startTs: Math.round(item.start_ts),
+    stopTs: Math.round(item.stop_ts),
+  }))
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db
+      .insert(transcriptSegments)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoNothing()
+  }
+}
+
+/**
+ * Reads a meeting's transcript from `transcript_segments`. Meetings transcribed
+ * before segments were stored are backfilled from Stream on first read.
+ */
+export const getTranscriptSegments = async ({
+  id,
+  transcriptUrl,
+}: TranscriptSource): Promise<StreamTranscriptItem[]> => {
+  const segments = await db
+    .select()
+    .from(transcriptSegments)
+    .where(eq(transcriptSegments.meetingId, id))
+    .orderBy(asc(transcriptSegments.position))
+
+  if (segments.length === 0 && transcriptUrl) {
+    const items = await fetchStreamTranscript(transcriptUrl).catch(() => [])
+    await saveTranscriptSegments(id, items)
+    return items
+  }
+
+  return segments.map((segment) => ({
+    speaker_id: segment.speakerId,
+    type: segment.type,
+    text: segment.text,
+    start_ts: segment.startTs,
+    stop_ts: segment.stopTs,
+  }))
+}
+
+/** Reads a meeting's transcript and resolves each speaker against users and agents. */
+export const getTranscriptWithSpeakers = async (meeting: TranscriptSource) => {
+  const transcript = await getTranscriptSegments(meeting)
+
+  const speakerIds = [...new Set(transcript.map((item) => item.speaker_id))]
+  if (speakerIds.length === 0) {
+    return []
+  }
+
+  const userSpeakers = await db
+    .select()
+    .from(user)
+    .where(inArray(user.id, speakerIds))
+    .then((users) =>
+      users.map((user) => ({
+        ...user,
+        image:
+          user.image ??
+          generatedAvatarUri({ seed: user.name, variant: "initials" }),
+      }))
+    )
+
+  const agentSpeakers = await db
+    .select()
+    .from(agents)
+    .where(inArray(agents.id, speakerIds))
+    .then((agents) =>
+      agents.map((agent) => ({
+        ...agent,
+        image: generatedAvatarUri({
+          seed: agent.name,
+          variant: "botttsNeutral",
+        }),
+      }))
+    )
+
+  const guestParticipantIds = speakerIds
+    .filter((id) => id.startsWith(GUEST_USER_ID_PREFIX))
+    .map((id) => id.slice(GUEST_USER_ID_PREFIX.length))
+
+  const guestSpeakers = guestParticipantIds.length === 0 ? [] : await db
+    .select()
+    .from(meetingParticipants)
+    .where(inArray(meetingParticipants.id, guestParticipantIds))
+    .then((participants) =>
+      participants.map((participant) => ({
+        id: getGuestUserId(participant.id),
+        name: participant.name,
+        image: generatedAvatarUri({ seed: participant.name, variant: "initials" }),
+      }))
+    )
+
+  const speakers = [...userSpeakers, ...agentSpeakers, ...guestSpeakers]
+
+  return transcript.map((item) => {
+    const speaker = speakers.find(
+      (speaker) => speaker.id === item.speaker_id
+    )
+
+    if (!speaker) {
+      return {
+        ...item,
+        user: {
+          name: "Unknown",
+          image: generatedAvatarUri({
+            seed: "Unknown",
+            variant: "initials",
+          }),
+        },
+      }
+    }
+
+    return {
+      ...item,
+      user: {
+        name: speaker.name,
+        image: speaker.image,
+      },
+    }
+  })
+}
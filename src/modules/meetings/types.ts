@@ -4,6 +4,7 @@ import type { AppRouter } from "@/trpc/routers/_app";
 
 export type MeetingsGetMany = inferRouterOutputs<AppRouter>["meetings"]["getMany"]["items"]
 export type MeetingGetOne = inferRouterOutputs<AppRouter>["meetings"]["getOne"]
+export type MeetingGetTranscript = inferRouterOutputs<AppRouter>["meetings"]["getTranscript"]
 
 export enum MeetingStatus {
     Upcoming = "upcoming",
@@ -13,6 +14,22 @@ export enum MeetingStatus {
     Cancelled = "cancelled",
 }
 
+export enum MeetingSort {
+    Newest = "newest",
+    Scheduled = "scheduled",
+}
+
+export enum AgentTurnPolicy {
+    Addressed = "addressed",
+    RoundRobin = "round_robin",
+    Moderator = "moderator",
+}
+
+export enum MeetingSearchMode {
+    Name = "name",
+    Content = "content",
+}
+
 export type StreamTranscriptItem = {
     speaker_id: string
     type: string
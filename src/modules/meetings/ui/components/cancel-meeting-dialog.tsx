@@ -0,0 +1,66 @@
+import { useState } from "react"
+
+import { ResponsiveDialog } from "@/components/responsive-dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+
+interface CancelMeetingDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    onConfirm: (reason?: string) => void
+    isCancelling: boolean
+}
+
+export const CancelMeetingDialog = ({
+    open,
+    onOpenChange,
+    onConfirm,
+    isCancelling,
+} : CancelMeetingDialogProps) => {
+
+    const [reason, setReason] = useState("")
+
+    const handleOpenChange = (value: boolean) => {
+        if (!value) setReason("")
+        onOpenChange(value)
+    }
+
+    return (
+        <ResponsiveDialog
+            title="Cancel meeting?"
+            description="The meeting can no longer be joined once it is cancelled"
+            open={open}
+            onOpenChange={handleOpenChange}
+        >
+            <div className="space-y-2">
+                <Label htmlFor="cancellation-reason">Reason (optional)</Label>
+                <Textarea
+                    id="cancellation-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    maxLength={500}
+                    placeholder="e.g. Rescheduling for next week"
+                />
+            </div>
+            <div className="pt-4 w-full flex flex-col-reverse gap-y-2 lg:flex-row gap-x-2 items-center justify-end">
+                <Button
+                    onClick={() => handleOpenChange(false)}
+                    variant="outline"
+                    className="w-full lg:w-auto"
+                    disabled={isCancelling}
+                >
+                    Keep meeting
+                </Button>
+                <Button
+                    onClick={() => onConfirm(reason.trim() || undefined)}
+                    variant="destructive"
+                    className="w-full lg:w-auto"
+                    disabled={isCancelling}
+                >
+                    Cancel meeting
+                </Button>
+            </div>
+        </ResponsiveDialog>
+    )
+}
@@ -1,14 +1,32 @@
+import { format } from "date-fns"
+
 import { EmptyState } from "@/components/ui/empty-state"
 
+interface Props {
+    cancelledAt: string | null
+    cancellationReason: string | null
+}
 
-export const CancelledState = () => {
+export const CancelledState = ({
+    cancelledAt,
+    cancellationReason,
+} : Props) => {
     return (
         <div className="bg-white rounded-lg px-4 py-5 flex flex-col gap-y-8 items-center justify-center">
             <EmptyState
                 image="/cancelled.svg"
                 title="Meeting cancelled"
-                description="Meeting is no longer available"
+                description={
+                    cancelledAt
+                        ? `Cancelled on ${format(cancelledAt, "PPP 'at' p")}`
+                        : "Meeting is no longer available"
+                }
             />
+            {cancellationReason && (
+                <p className="text-sm text-muted-foreground text-center max-w-md">
+                    Reason: {cancellationReason}
+                </p>
+            )}
         </div>
     )
-}
\ No newline at end of file
+}
@@ -1,38 +1,22 @@
 "use client"
 
 import {
-    CircleCheckIcon,
-    CircleXIcon,
-    ClockArrowUpIcon,
+    CalendarClockIcon,
     ClockFading,
     CornerDownRightIcon,
-    LoaderIcon
 } from "lucide-react"
 
 import {format} from "date-fns"
 
 import {cn, formatDuration} from "@/lib/utils"
+import { formatInTimeZone } from "@/lib/timezone"
 
 import { ColumnDef } from "@tanstack/react-table"
 import { MeetingsGetMany } from "../../types"
 import { GeneratedAvatar } from "@/components/ui/generated-avatar"
 import { Badge } from "@/components/ui/badge"
-
-const statusIconMap = {
-    upcoming: ClockArrowUpIcon,
-    active: LoaderIcon,
-    completed: CircleCheckIcon,
-    processing: LoaderIcon,
-    cancelled: CircleXIcon
-}
-
-const statusColorMap = {
-  upcoming: 'bg-yellow-500/20 text-yellow-800 border-yellow-800/5',
-  active: 'bg-blue-500/20 text-blue-800 border-blue-800/5',
-  completed: 'bg-emerald-500/20 text-emerald-800 border-emerald-800/5',
-  processing: 'bg-gray-500/20 text-gray-800 border-gray-800/5',
-  cancelled: 'bg-rose-500/20 text-rose-800 border-rose-800/5',
-}
+import { SearchHighlight } from "./search-highlight"
+import { statusColorMap, statusIconMap } from "../../constants"
 
 export const columns: ColumnDef<MeetingsGetMany[number]>[] = [
   {
@@ -40,7 +24,11 @@ export const columns: ColumnDef<MeetingsGetMany[number]>[] = [
     header: "Meeting Name",
     cell: ({ row }) => (
         <div className="flex flex-col gap-y-1">
-            <span className="font-semibold capitalize">{row.original.name}</span>
+            <span className="font-semibold capitalize">
+                {row.original.highlightedName
+                    ? <SearchHighlight text={row.original.highlightedName} />
+                    : row.original.name}
+            </span>
                 <div className="flex items-center gap-x-2">
                     <div className="flex items-center gap-x-1">
 
@@ -58,6 +46,11 @@ export const columns: ColumnDef<MeetingsGetMany[number]>[] = [
                         {row.original.startedAt ? format(row.original.startedAt, "MMM d") : ""}
                     </span>
             </div>
+            {row.original.searchSnippet && (
+                <p className="text-sm text-muted-foreground max-w-[480px] line-clamp-2">
+                    &hellip;<SearchHighlight text={row.original.searchSnippet} />&hellip;
+                </p>
+            )}
         </div>
     )
   },
@@ -84,6 +77,18 @@ export const columns: ColumnDef<MeetingsGetMany[number]>[] = [
         )
     }
   },
+  {
+    accessorKey: "scheduledStartAt",
+    header: "Scheduled",
+    cell: ({ row }) => (
+        <div className="flex items-center gap-x-2 text-sm text-muted-foreground">
+            <CalendarClockIcon className="size-4" />
+            {row.original.scheduledStartAt
+                ? formatInTimeZone(row.original.scheduledStartAt, row.original.timezone)
+                : "Not scheduled"}
+        </div>
+    )
+  },
   {
     accessorKey: "duration",
     header: "duration",
@@ -5,6 +5,7 @@ import { MeetingGetOne } from "../../types"
 import { 
     SparklesIcon,
     FileTextIcon,
+    FileVideoIcon,
     ClockFadingIcon,
     BookOpenTextIcon,
     } from "lucide-react"
@@ -15,6 +16,10 @@ import { GeneratedAvatar } from "@/components/ui/generated-avatar"
 import { format } from "date-fns"
 import { Badge } from "@/components/ui/badge"
 import { formatDuration } from "@/lib/utils"
+import { Transcript } from "./transcript"
+import { Recording } from "./recording"
+import { AskAi } from "@/modules/chat/ui/components/ask-ai"
+import { MeetingParticipants } from "@/modules/participants/ui/components/meeting-participants"
 
 
 interface Props {
@@ -44,36 +49,40 @@ export const CompletedState = ({ data }: Props) => {
                   <FileTextIcon />
                   Transcript
                 </TabsTrigger>
-                {/* <TabsTrigger
-                  value="recording"
-                  className="text-muted-foreground rounded-none bg-background data-[state=active]:shadow-none border-b-2 border-transparent
-                                            data-[state=active]:border-b-primary data-[state=active]:text-foreground h-full hover:text-accent-foreground"
-                >
-                  <FileTextIcon />
-                  Recording
-                </TabsTrigger> */}
-                {/* <TabsTrigger
+                {data.recordingUrl && (
+                  <TabsTrigger
+                    value="recording"
+                    className="text-muted-foreground rounded-none bg-background data-[state=active]:shadow-none border-b-2 border-transparent
+                                              data-[state=active]:border-b-primary data-[state=active]:text-foreground h-full hover:text-accent-foreground"
+                  >
+                    <FileVideoIcon />
+                    Recording
+                  </TabsTrigger>
+                )}
+                <TabsTrigger
                   value="chat"
                   className="text-muted-foreground rounded-none bg-background data-[state=active]:shadow-none border-b-2 border-transparent
                                             data-[state=active]:border-b-primary data-[state=active]:text-foreground h-full hover:text-accent-foreground"
                 >
                   <SparklesIcon />
                   Ask AI
-                </TabsTrigger>*/ }
+                </TabsTrigger>
               </TabsList> 
               <ScrollBar orientation="horizontal" />
             </ScrollArea>
           </div>
-          {/* <TabsContent value="recording">
-            <div className="bg-white rounded-lg border px-4 py-5">
-              <video
-                src={data.recordingUrl!}
-                className="w-full rounded-lg"
-                controls
-              />
-            </div>
-          </TabsContent> */}
-          <TabsContent value="summary">
+          {data.recordingUrl && (
+            <TabsContent value="recording">
+              <Recording meetingId={data.id} />
+            </TabsContent>
+          )}
+          <TabsContent value="chat">
+            <AskAi meetingId={data.id} agentName={data.agent.name} />
+          </TabsContent>
+          <TabsContent value="transcript">
+            <Transcript meetingId={data.id} />
+          </TabsContent>
+          <TabsContent value="summary" className="flex flex-col gap-y-4">
             <div className="bg-white rounded-lg border">
               <div className="px-4 py-5 gap-y-5 flex flex-col col-span-5">
                 <h2 className="text-2xl font-medium capitalize">{data.name}</h2>
@@ -89,6 +98,20 @@ export const CompletedState = ({ data }: Props) => {
                     />
                     {data.agent.name}
                   </Link>{' '}
+                  {data.additionalAgents.map((agent) => (
+                    <Link
+                      key={agent.id}
+                      href={`/agents/${agent.id}`}
+                      className="flex items-center gap-x-2 underline underline-offset-4 capitalize"
+                    >
+                      <GeneratedAvatar
+                        variant="botttsNeutral"
+                        seed={agent.name}
+                        className="size-5"
+                      />
+                      {agent.name}
+                    </Link>
+                  ))}
                   <p>{data.startedAt ? format(data.startedAt, 'PPP') : ''}</p>
                 </div>
                 <div className="flex gap-x-2 items-center">
@@ -146,6 +169,7 @@ export const CompletedState = ({ data }: Props) => {
                 </div>
               </div>
             </div>
+            <MeetingParticipants meetingId={data.id} canManage={false} />
           </TabsContent>
         </Tabs>
       </div>
@@ -6,6 +6,8 @@ import z from "zod"
 
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import {
     Form,
     FormControl,
@@ -15,20 +17,35 @@ import {
     FormLabel,
     FormMessage,
 } from "@/components/ui/form"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
 import { toast } from "sonner"
-import { MeetingGetOne } from "../../types"
+import { AgentTurnPolicy, MeetingGetOne } from "../../types"
 import { meetingsInsertSchema } from "../../schemas"
-import { useState } from "react"
+import { MAX_ADDITIONAL_AGENTS, TURN_POLICY_LABELS } from "../../constants"
+import { useMemo, useState } from "react"
+import { format } from "date-fns"
+import { CalendarIcon, XIcon } from "lucide-react"
 
 import { CommandSelect } from "@/components/command-select"
 import { GeneratedAvatar } from "@/components/ui/generated-avatar"
 import { NewAgentDialog } from "@/modules/agents/ui/components/new-agent-dialog"
+import { getLocalTimeZone, utcToZonedTime, zonedTimeToUtc } from "@/lib/timezone"
+import { cn } from "@/lib/utils"
 
 interface MeetingFormProps {
 
     onSuccess?: (id?: string) => void
     onCancel?: () => void
     initialValues?: MeetingGetOne
+    // Preselects the agent when creating a meeting
+    defaultAgentId?: string
 
 }
 
@@ -36,6 +53,7 @@ export const MeetingForm = ({
     onSuccess,
     onCancel,
     initialValues,
+    defaultAgentId,
 } : MeetingFormProps ) => {
     
     const trpc = useTRPC()
@@ -44,6 +62,28 @@ export const MeetingForm = ({
     const [openNewAgentDialog, setOpenNewAgentDialog] = useState(false)
     const [agentSearch, setAgentSearch] = useState("")
 
+    const initialTimezone = initialValues?.timezone ?? getLocalTimeZone()
+    const initialSchedule = initialValues?.scheduledStartAt
+        ? utcToZonedTime(initialValues.scheduledStartAt, initialTimezone)
+        : null
+
+    // The calendar picks a local day; only its yyyy-MM-dd is used, combined with the
+    // time and timezone fields on submit
+    const [scheduledDate, setScheduledDate] = useState<Date | undefined>(
+        initialSchedule ? new Date(`${initialSchedule.date}T00:00`) : undefined
+    )
+    const [scheduledTime, setScheduledTime] = useState(initialSchedule?.time ?? "09:00")
+
+    // supportedValuesOf leaves out "UTC", which is the column default
+    const timezoneOptions = useMemo(
+        () => ["UTC", ...Intl.supportedValuesOf("timeZone").filter((timezone) => timezone !== "UTC")].map((timezone) => ({
+            id: timezone,
+            value: timezone,
+            children: <span>{timezone.replace(/_/g, " ")}</span>,
+        })),
+        []
+    )
+
     const agents = useQuery(
         trpc.agents.getMany.queryOptions({
             pageSize: 100,
@@ -96,18 +136,37 @@ export const MeetingForm = ({
       resolver: zodResolver(meetingsInsertSchema),
       defaultValues: {
         name: initialValues?.name ?? '',
-        agentId: initialValues?.agentId ?? '',
+        agentId: initialValues?.agentId ?? defaultAgentId ?? '',
+        additionalAgentIds: initialValues?.additionalAgents.map((agent) => agent.id) ?? [],
+        turnPolicy: (initialValues?.turnPolicy as AgentTurnPolicy | undefined) ?? AgentTurnPolicy.Addressed,
+        scheduledStartAt: initialValues?.scheduledStartAt ?? null,
+        scheduledDurationMinutes: initialValues?.scheduledDurationMinutes ?? 30,
+        timezone: initialTimezone,
       },
     })
 
+    const leadAgentId = form.watch("agentId")
+    const additionalAgentIds = form.watch("additionalAgentIds")
+
+    // Selected agents may be missing from the current search results
+    const agentNames = new Map([
+        ...(initialValues?.additionalAgents ?? []).map((agent) => [agent.id, agent.name] as const),
+        ...(agents.data?.items ?? []).map((agent) => [agent.id, agent.name] as const),
+    ])
+
     const isEdit = !!initialValues?.id
     const isPending  = createMeeting.isPending || updateMeeting.isPending
 
     const onSubmit = (values: z.infer<typeof meetingsInsertSchema>) => {
+      const scheduledStartAt = scheduledDate
+        ? zonedTimeToUtc(format(scheduledDate, "yyyy-MM-dd"), scheduledTime, values.timezone).toISOString()
+        : null
+      const input = { ...values, scheduledStartAt }
+
       if (isEdit) {
-        updateMeeting.mutate({ ...values, id: initialValues.id })
+        updateMeeting.mutate({ ...input, id: initialValues.id })
       } else {
-        createMeeting.mutate(values)
+        createMeeting.mutate(input)
       }
     }
 
@@ -177,6 +236,175 @@ export const MeetingForm = ({
                         </FormItem>
                     )}
                 />
+                <FormField
+                    name="additionalAgentIds"
+                    control={form.control}
+                    render = {({ field }) => (
+                        <FormItem>
+                            <FormLabel>Additional agents</FormLabel>
+                            {field.value.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                    {field.value.map((agentId) => (
+                                        <Badge key={agentId} variant="outline" className="gap-x-1 py-1">
+                                            <GeneratedAvatar
+                                                seed={agentNames.get(agentId) ?? agentId}
+                                                variant="botttsNeutral"
+                                                className="size-4"
+                                            />
+                                            {agentNames.get(agentId) ?? "Agent"}
+                                            <button
+                                                type="button"
+                                                aria-label="Remove agent"
+                                                onClick={() => field.onChange(field.value.filter((id) => id !== agentId))}
+                                            >
+                                                <XIcon className="size-3"/>
+                                            </button>
+                                        </Badge>
+                                    ))}
+                                </div>
+                            )}
+                            {field.value.length < MAX_ADDITIONAL_AGENTS && (
+                                <FormControl>
+                                    <CommandSelect
+                                        options = {(agents.data?.items ?? [])
+                                            .filter((agent) => agent.id !== leadAgentId && !field.value.includes(agent.id))
+                                            .map((agent) => ({
+                                                id: agent.id,
+                                                value: agent.id,
+                                                children: (
+                                                    <div className="flex items-center gap-x-2">
+                                                        <GeneratedAvatar
+                                                            seed={agent.name}
+                                                            variant="botttsNeutral"
+                                                            className="border size-6"
+                                                        />
+                                                        <span>{agent.name}</span>
+                                                    </div>
+                                                )
+                                            }))}
+                                        onSelect={(agentId) => field.onChange([...field.value, agentId])}
+                                        onSearch={setAgentSearch}
+                                        value=""
+                                        placeholder="Add another agent"
+                                    />
+                                </FormControl>
+                            )}
+                            <FormMessage/>
+                        </FormItem>
+                    )}
+                />
+                {additionalAgentIds.some((id) => id !== leadAgentId) && (
+                    <FormField
+                        name="turnPolicy"
+                        control={form.control}
+                        render = {({ field }) => (
+                            <FormItem>
+                                <FormLabel>Turn-taking</FormLabel>
+                                <Select value={field.value} onValueChange={field.onChange}>
+                                    <FormControl>
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue/>
+                                        </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                        {Object.values(AgentTurnPolicy).map((policy) => (
+                                            <SelectItem key={policy} value={policy}>
+                                                {TURN_POLICY_LABELS[policy].label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormDescription>
+                                    {TURN_POLICY_LABELS[field.value].description}
+                                </FormDescription>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+                )}
+                <div className="space-y-2">
+                    <FormLabel>Scheduled for</FormLabel>
+                    <div className="flex gap-x-2">
+                        <Popover>
+                            <PopoverTrigger asChild>
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    className={cn(
+                                        "flex-1 justify-start font-normal",
+                                        !scheduledDate && "text-muted-foreground"
+                                    )}
+                                >
+                                    <CalendarIcon/>
+                                    {scheduledDate ? format(scheduledDate, "PPP") : "Pick a date"}
+                                </Button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-auto p-0" align="start">
+                                <Calendar
+                                    mode="single"
+                                    selected={scheduledDate}
+                                    onSelect={setScheduledDate}
+                                />
+                            </PopoverContent>
+                        </Popover>
+                        <Input
+                            type="time"
+                            className="w-32"
+                            value={scheduledTime}
+                            onChange={(e) => setScheduledTime(e.target.value)}
+                            disabled={!scheduledDate}
+                        />
+                    </div>
+                    {scheduledDate && (
+                        <button
+                            type="button"
+                            className="text-sm text-muted-foreground hover:underline"
+                            onClick={() => setScheduledDate(undefined)}
+                        >
+                            Clear schedule
+                        </button>
+                    )}
+                </div>
+                <div className="grid grid-cols-2 gap-x-2">
+                    <FormField
+                        name="timezone"
+                        control={form.control}
+                        render = {({ field }) => (
+                            <FormItem>
+                                <FormLabel>Timezone</FormLabel>
+                                <FormControl>
+                                    <CommandSelect
+                                        options={timezoneOptions}
+                                        onSelect={field.onChange}
+                                        value={field.value}
+                                        placeholder="Select a timezone"
+                                    />
+                                </FormControl>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        name="scheduledDurationMinutes"
+                        control={form.control}
+                        render = {({ field }) => (
+                            <FormItem>
+                                <FormLabel>Duration (minutes)</FormLabel>
+                                <FormControl>
+                                    <Input
+                                        type="number"
+                                        min={5}
+                                        max={480}
+                                        step={5}
+                                        {...field}
+                                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                                    />
+                                </FormControl>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+                </div>
                 <div className="flex justify-between gap-x-2">
                     {onCancel && (
                         <Button
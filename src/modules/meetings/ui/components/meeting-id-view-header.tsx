@@ -14,12 +14,13 @@ import {
     DropdownMenuContent
 } from "@/components/ui/dropdown-menu"
 
-import { ChevronRightIcon, TrashIcon, PencilIcon, MoreVerticalIcon } from "lucide-react"
+import { ChevronRightIcon, TrashIcon, PencilIcon, MoreVerticalIcon, CalendarPlusIcon } from "lucide-react"
 import Link from "next/link"
 
 interface Props {
     meetingId: string
     meetingName: string
+    isScheduled: boolean
     onEdit: () => void
     onRemove: () => void
 }
@@ -27,6 +28,7 @@ interface Props {
 export const MeetingIdViewHeader = ({
     meetingId,
     meetingName,
+    isScheduled,
     onEdit,
     onRemove
 } : Props) => {
@@ -63,6 +65,14 @@ export const MeetingIdViewHeader = ({
                     <PencilIcon className="size-4 text-black"/>
                     Edit
                 </DropdownMenuItem>
+                {isScheduled && (
+                    <DropdownMenuItem asChild>
+                        <a href={`/api/meetings/${meetingId}/invite`} download>
+                            <CalendarPlusIcon className="size-4 text-black"/>
+                            Download invite
+                        </a>
+                    </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={onRemove}>
                     <TrashIcon className="size-4 text-black"/>
                     Delete
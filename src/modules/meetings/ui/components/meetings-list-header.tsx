@@ -7,7 +7,9 @@ import { useState } from "react"
 import { MeetingsSearchFilter } from "./meetings-search-filter"
 import { StatusFilter } from "./status-filter"
 import { AgentIdFilter } from "./agent-id-filter"
+import { SortFilter } from "./sort-filter"
 import { useMeetingsFilters } from "../../hooks/use-meetings-filters"
+import { MeetingSearchMode, MeetingSort } from "../../types"
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area"
 
 export const MeetingsListHeader = () => {
@@ -15,13 +17,15 @@ export const MeetingsListHeader = () => {
     const [filters, setFilters] = useMeetingsFilters()
     const [isDialogOpen, setIsDialogOpen] = useState(false)
 
-    const isAnyFilterModified = !!filters.status || !!filters.search || !!filters.agentId
+    const isAnyFilterModified = !!filters.status || !!filters.search || !!filters.agentId || filters.sort !== MeetingSort.Newest || filters.searchMode !== MeetingSearchMode.Name
 
     const onClearFilters = () => {
         setFilters({
             status: null,
             agentId: "",
             search: "",
+            sort: MeetingSort.Newest,
+            searchMode: MeetingSearchMode.Name,
             page: 1,
         })
     }
@@ -42,6 +46,7 @@ export const MeetingsListHeader = () => {
                     <MeetingsSearchFilter />
                     <StatusFilter />
                     <AgentIdFilter />
+                    <SortFilter />
                     {isAnyFilterModified && (
                         <Button variant="outline" onClick={onClearFilters}>
                             <XCircleIcon className="size-4" />
@@ -1,22 +1,40 @@
-import { SearchIcon } from "lucide-react";
+import { FileSearchIcon, SearchIcon } from "lucide-react";
 
 import { Input } from "@/components/ui/input"
+import { Toggle } from "@/components/ui/toggle"
 
 import { useMeetingsFilters } from "../../hooks/use-meetings-filters";
+import { MeetingSearchMode } from "../../types";
 
 export const MeetingsSearchFilter = () => {
     const [filters, setFilters] = useMeetingsFilters()
 
+    const isContentSearch = filters.searchMode === MeetingSearchMode.Content
+
     return (
-        <div className="relative">
-            <Input
-                placeholder="Filter by name"
-                className="h-9 bg-white w-[200px] pl-7"
-                value={filters.search}
-                onChange={(e) => setFilters({search: e.target.value})}
-            />
-            <SearchIcon className="size-4 absolute left-2 top-1/2 -translate-y-1/2
-            text-muted-foreground"/>
+        <div className="flex items-center gap-x-1">
+            <div className="relative">
+                <Input
+                    placeholder={isContentSearch ? "Search summaries and transcripts" : "Filter by name"}
+                    className="h-9 bg-white w-[240px] pl-7"
+                    value={filters.search}
+                    onChange={(e) => setFilters({search: e.target.value})}
+                />
+                <SearchIcon className="size-4 absolute left-2 top-1/2 -translate-y-1/2
+                text-muted-foreground"/>
+            </div>
+            <Toggle
+                variant="outline"
+                className="h-9 bg-white"
+                pressed={isContentSearch}
+                onPressedChange={(pressed) => setFilters({
+                    searchMode: pressed ? MeetingSearchMode.Content : MeetingSearchMode.Name,
+                })}
+                aria-label="Search summaries and transcripts"
+                title="Search summaries and transcripts"
+            >
+                <FileSearchIcon/>
+            </Toggle>
         </div>
     )
 }
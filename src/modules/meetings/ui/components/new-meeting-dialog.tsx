@@ -5,11 +5,13 @@ import { useRouter } from "next/navigation";
 interface NewMeetingDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void
+    defaultAgentId?: string
 }
 
 export const NewMeetingDialog = ({
     open,
     onOpenChange,
+    defaultAgentId,
 } : NewMeetingDialogProps ) => {
     const router = useRouter()
 
@@ -26,6 +28,7 @@ export const NewMeetingDialog = ({
                     router.push(`/meetings/${id}`)
                 }}
                 onCancel={() => onOpenChange(false)}
+                defaultAgentId={defaultAgentId}
             />
         </ResponsiveDialog>
     )
@@ -0,0 +1,108 @@
+import { useRef, useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+
+import { useTRPC } from "@/trpc/client"
+import { Button } from "@/components/ui/button"
+
+import { Transcript } from "./transcript"
+
+interface Props {
+    meetingId: string
+}
+
+// Stream signs recording links for a limited time, so reopening the tab later signs a new one
+const RECORDING_URL_STALE_TIME_MS = 10 * 60 * 1000
+
+export const Recording = ({ meetingId }: Props) => {
+    const trpc = useTRPC()
+    const videoRef = useRef<HTMLVideoElement | null>(null)
+    // Where to resume after the source is swapped for a freshly signed URL
+    const resumeAtRef = useRef<number | null>(null)
+    // A fresh URL is tried once per playback attempt; a second error is a real failure
+    const retriedRef = useRef(false)
+    const [currentTime, setCurrentTime] = useState(0)
+    const [playbackFailed, setPlaybackFailed] = useState(false)
+
+    const { data, isLoading, error, refetch } = useQuery({
+        ...trpc.meetings.getRecordingUrl.queryOptions({ id: meetingId }),
+        staleTime: RECORDING_URL_STALE_TIME_MS,
+        // Swapping the source reloads the video, so only refresh on demand
+        refetchOnWindowFocus: false,
+    })
+
+    const onSelectLine = (startTs: number) => {
+        const video = videoRef.current
+        if (!video) return
+
+        video.currentTime = startTs / 1000
+        void video.play()
+    }
+
+    const onVideoError = () => {
+        if (retriedRef.current) {
+            setPlaybackFailed(true)
+            return
+        }
+
+        // Most likely the signed URL expired mid-session
+        retriedRef.current = true
+        resumeAtRef.current = videoRef.current?.currentTime ?? null
+        void refetch()
+    }
+
+    const onLoadedData = () => {
+        retriedRef.current = false
+    }
+
+    const onRetryPlayback = () => {
+        retriedRef.current = true
+        setPlaybackFailed(false)
+        void refetch()
+    }
+
+    const onLoadedMetadata = () => {
+        const video = videoRef.current
+        if (!video || resumeAtRef.current === null) return
+
+        video.currentTime = resumeAtRef.current
+        resumeAtRef.current = null
+    }
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="bg-white rounded-lg border px-4 py-5">
+                {isLoading && (
+                    <p className="text-sm text-muted-foreground">Loading recording...</p>
+                )}
+                {error && (
+                    <p className="text-sm text-muted-foreground">{error.message}</p>
+                )}
+                {data && playbackFailed && (
+                    <div className="flex flex-col items-start gap-y-2">
+                        <p className="text-sm text-muted-foreground">The recording could not be played</p>
+                        <Button variant="outline" size="sm" onClick={onRetryPlayback}>
+                            Try again
+                        </Button>
+                    </div>
+                )}
+                {data && !playbackFailed && (
+                    <video
+                        ref={videoRef}
+                        src={data.url}
+                        className="w-full rounded-lg"
+                        controls
+                        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime * 1000)}
+                        onLoadedMetadata={onLoadedMetadata}
+                        onLoadedData={onLoadedData}
+                        onError={onVideoError}
+                    />
+                )}
+            </div>
+            <Transcript
+                meetingId={meetingId}
+                currentTime={currentTime}
+                onSelectLine={onSelectLine}
+            />
+        </div>
+    )
+}
@@ -0,0 +1,22 @@
+import { Fragment } from "react"
+
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START } from "../../constants"
+
+interface Props {
+    text: string
+}
+
+// Renders text returned by full-text search, marking the ranges Postgres delimited
+export const SearchHighlight = ({ text }: Props) => {
+    const parts = text.split(new RegExp(`${SEARCH_HIGHLIGHT_START}|${SEARCH_HIGHLIGHT_END}`))
+
+    return (
+        <>
+            {parts.map((part, index) => (
+                index % 2 === 1
+                    ? <mark key={index} className="bg-yellow-200 rounded-sm">{part}</mark>
+                    : <Fragment key={index}>{part}</Fragment>
+            ))}
+        </>
+    )
+}
@@ -0,0 +1,42 @@
+import { CalendarClockIcon, ClockIcon } from "lucide-react"
+
+import { CommandSelect } from "@/components/command-select"
+import { MeetingSort } from "../../types"
+import { useMeetingsFilters } from "../../hooks/use-meetings-filters"
+
+const options = [
+  {
+    id: MeetingSort.Newest,
+    value: MeetingSort.Newest,
+    children: (
+      <div className="flex items-center gap-x-2">
+        <ClockIcon />
+        Newest first
+      </div>
+    ),
+  },
+  {
+    id: MeetingSort.Scheduled,
+    value: MeetingSort.Scheduled,
+    children: (
+      <div className="flex items-center gap-x-2">
+        <CalendarClockIcon />
+        Scheduled time
+      </div>
+    ),
+  },
+]
+
+export const SortFilter = () => {
+    const [filters, setFilters] = useMeetingsFilters()
+
+    return (
+        <CommandSelect
+            placeholder="Sort"
+            className="h-9"
+            options={options}
+            onSelect={(value) => setFilters({ sort: value as MeetingSort })}
+            value={filters.sort}
+        />
+    )
+}
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { BotIcon, UserIcon } from "lucide-react"
+
+import { useTRPC } from "@/trpc/client"
+import { Badge } from "@/components/ui/badge"
+
+interface Props {
+    meetingId: string
+}
+
+const causeLabels: Record<string, string> = {
+    "meetings.create": "Meeting created",
+    "meetings.cancel": "Meeting cancelled",
+    "call.session_started": "Call started",
+    "call.session_ended": "Call ended",
+    "meetings/processing": "Summary generated",
+}
+
+export const StatusTimeline = ({ meetingId }: Props) => {
+    const trpc = useTRPC()
+    const { data: events } = useQuery(
+        trpc.meetings.getStatusEvents.queryOptions({ id: meetingId })
+    )
+
+    if (!events?.length) return null
+
+    return (
+        <div className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-4">
+            <h6 className="font-medium">Timeline</h6>
+            <ol className="relative border-l ml-2 flex flex-col gap-y-4">
+                {events.map((event) => {
+                    const ActorIcon = event.actorType === "user" ? UserIcon : BotIcon
+                    return (
+                        <li key={event.id} className="ml-4">
+                            <span className="absolute -left-1.5 mt-1.5 size-3 rounded-full border bg-background"/>
+                            <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                                <span className="text-sm font-medium">
+                                    {causeLabels[event.cause] ?? event.cause}
+                                </span>
+                                <Badge variant="outline" className="capitalize">
+                                    {event.fromStatus ? `${event.fromStatus} → ${event.toStatus}` : event.toStatus}
+                                </Badge>
+                            </div>
+                            <div className="flex items-center gap-x-1 text-xs text-muted-foreground">
+                                <ActorIcon className="size-3"/>
+                                <span>{event.actorType === "user" ? event.actorName ?? "User" : "System"}</span>
+                                <span>· {format(event.createdAt, "PPP 'at' p")}</span>
+                            </div>
+                        </li>
+                    )
+                })}
+            </ol>
+        </div>
+    )
+}
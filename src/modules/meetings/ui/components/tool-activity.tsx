@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { WrenchIcon } from "lucide-react"
+
+import { useTRPC } from "@/trpc/client"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { AGENT_TOOL_LABELS } from "@/modules/agents/constants"
+import { AgentTool } from "@/modules/agents/types"
+
+// Agents may use tools at any moment during a live call
+const LIVE_REFETCH_INTERVAL_MS = 5000
+
+interface Props {
+    meetingId: string
+    isLive: boolean
+}
+
+const formatValue = (value: unknown) =>
+    typeof value === "string" ? value : JSON.stringify(value)
+
+export const ToolActivity = ({ meetingId, isLive }: Props) => {
+    const trpc = useTRPC()
+    const { data: invocations } = useQuery({
+        ...trpc.meetings.getToolInvocations.queryOptions({ id: meetingId }),
+        refetchInterval: isLive ? LIVE_REFETCH_INTERVAL_MS : false,
+    })
+
+    if (!invocations?.length) return null
+
+    return (
+        <div className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-4">
+            <div className="flex items-center gap-x-2">
+                <WrenchIcon className="size-4" />
+                <h6 className="font-medium">Agent tool activity</h6>
+            </div>
+            <ul className="flex flex-col divide-y">
+                {invocations.map((invocation) => {
+                    const failed = invocation.status === "failed"
+                    return (
+                        <li key={invocation.id} className="flex flex-col gap-y-1 py-2">
+                            <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                                <span className="text-sm font-medium">
+                                    {AGENT_TOOL_LABELS[invocation.tool as AgentTool] ?? invocation.tool}
+                                </span>
+                                <Badge
+                                    variant="outline"
+                                    className={cn(
+                                        "capitalize",
+                                        failed
+                                            ? "bg-rose-500/20 text-rose-800 border-rose-800/5"
+                                            : "bg-emerald-500/20 text-emerald-800 border-emerald-800/5"
+                                    )}
+                                >
+                                    {invocation.status}
+                                </Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground break-all">
+                                {formatValue(invocation.input)}
+                            </p>
+                            <p className={cn("text-xs break-all", failed ? "text-rose-700" : "text-neutral-700")}>
+                                {failed ? invocation.error : formatValue(invocation.output)}
+                            </p>
+                            <span className="text-xs text-muted-foreground">
+                                {invocation.agentName ?? "Removed agent"} · {format(invocation.createdAt, "PPp")} · {invocation.durationMs} ms
+                            </span>
+                        </li>
+                    )
+                })}
+            </ul>
+        </div>
+    )
+}
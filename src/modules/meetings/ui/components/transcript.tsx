@@ -0,0 +1,115 @@
+import { Fragment, useEffect, useRef, useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { SearchIcon } from "lucide-react"
+
+import { useTRPC } from "@/trpc/client"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Avatar, AvatarImage } from "@/components/ui/avatar"
+import { cn, formatTimestamp } from "@/lib/utils"
+
+interface Props {
+    meetingId: string
+    // Playback position in milliseconds, used to highlight the line being spoken
+    currentTime?: number
+    onSelectLine?: (startTs: number) => void
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+const Highlight = ({ text, query }: { text: string, query: string }) => {
+    if (!query) return <>{text}</>
+
+    // A capturing split keeps the matches at the odd indexes
+    const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, "gi"))
+
+    return (
+        <>
+            {parts.map((part, index) => (
+                index % 2 === 1
+                    ? <mark key={index} className="bg-yellow-200 rounded-sm">{part}</mark>
+                    : <Fragment key={index}>{part}</Fragment>
+            ))}
+        </>
+    )
+}
+
+export const Transcript = ({ meetingId, currentTime, onSelectLine }: Props) => {
+    const trpc = useTRPC()
+    const { data, isLoading } = useQuery(
+        trpc.meetings.getTranscript.queryOptions({ id: meetingId })
+    )
+
+    const [searchQuery, setSearchQuery] = useState("")
+    const query = searchQuery.trim()
+
+    const filteredData = (data ?? []).filter((item) =>
+        item.text.toLowerCase().includes(query.toLowerCase())
+    )
+
+    const activeLine = currentTime === undefined
+        ? undefined
+        : filteredData.findLast((item) => item.start_ts <= currentTime)
+    const activeKey = activeLine && `${activeLine.speaker_id}-${activeLine.start_ts}`
+
+    const activeRef = useRef<HTMLDivElement | null>(null)
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" })
+    }, [activeKey])
+
+    return (
+        <div className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-4 w-full">
+            <p className="text-sm font-medium">Transcript</p>
+            <div className="relative">
+                <Input
+                    placeholder="Search transcript"
+                    className="pl-7 h-9 w-[240px]"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                />
+                <SearchIcon className="absolute left-2 top-1/2 -translate-y-1/2 size-4 text-muted-foreground"/>
+            </div>
+            <ScrollArea className="h-[480px]">
+                <div className="flex flex-col gap-y-4">
+                    {isLoading && (
+                        <p className="text-sm text-muted-foreground">Loading transcript...</p>
+                    )}
+                    {!isLoading && filteredData.length === 0 && (
+                        <p className="text-sm text-muted-foreground">
+                            {query ? "No lines match your search" : "No transcript available"}
+                        </p>
+                    )}
+                    {filteredData.map((item) => {
+                        const key = `${item.speaker_id}-${item.start_ts}`
+                        const isActive = key === activeKey
+                        return (
+                            <div
+                                key={key}
+                                ref={isActive ? activeRef : undefined}
+                                onClick={() => onSelectLine?.(item.start_ts)}
+                                className={cn(
+                                    "flex flex-col gap-y-2 hover:bg-muted p-4 rounded-md border",
+                                    onSelectLine && "cursor-pointer",
+                                    isActive && "bg-muted border-primary"
+                                )}
+                            >
+                                <div className="flex gap-x-2 items-center">
+                                    <Avatar className="size-6">
+                                        <AvatarImage src={item.user.image} alt="User Avatar"/>
+                                    </Avatar>
+                                    <p className="text-sm font-medium">{item.user.name}</p>
+                                    <p className="text-sm text-blue-500 font-medium">
+                                        {formatTimestamp(item.start_ts)}
+                                    </p>
+                                </div>
+                                <p className="text-sm text-neutral-700">
+                                    <Highlight text={item.text} query={query}/>
+                                </p>
+                            </div>
+                        )
+                    })}
+                </div>
+            </ScrollArea>
+        </div>
+    )
+}
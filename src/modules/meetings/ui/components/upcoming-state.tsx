@@ -1,16 +1,24 @@
 import { EmptyState } from "@/components/ui/empty-state"
 import { Button } from "@/components/ui/button"
-import { VideoIcon, BanIcon } from "lucide-react"
+import { VideoIcon, BanIcon, CalendarClockIcon, CalendarPlusIcon } from "lucide-react"
 import Link from "next/link"
 
+import { formatInTimeZone } from "@/lib/timezone"
+
 interface Props {
     meetingId: string
+    scheduledStartAt: string | null
+    scheduledDurationMinutes: number
+    timezone: string
     onCancelMeeting: () => void
     isCancelling: boolean
 }
 
 export const UpcomingState = ({
     meetingId,
+    scheduledStartAt,
+    scheduledDurationMinutes,
+    timezone,
     onCancelMeeting,
     isCancelling
 } : Props) => {
@@ -21,6 +29,20 @@ export const UpcomingState = ({
                 title="Not started yet"
                 description="Once you start this meeting, a summary will appear here"
             />
+            {scheduledStartAt && (
+                <div className="flex flex-col items-center gap-y-2">
+                    <div className="flex items-center gap-x-2 text-sm text-muted-foreground">
+                        <CalendarClockIcon className="size-4" />
+                        {formatInTimeZone(scheduledStartAt, timezone)} · {scheduledDurationMinutes} min
+                    </div>
+                    <Button variant="outline" size="sm" asChild>
+                        <a href={`/api/meetings/${meetingId}/invite`} download>
+                            <CalendarPlusIcon/>
+                            Add to calendar
+                        </a>
+                    </Button>
+                </div>
+            )}
             <div className="flex flex-col-reverse lg:flex-row lg:justify-center items-center gap-2 w-full">
                 <Button
                     variant="secondary"
@@ -14,6 +14,11 @@ import { ActiveState } from "../components/active-state"
 import { CancelledState } from "../components/cancelled-state"
 import { ProcessingState } from "../components/processing-state"
 import { CompletedState } from "../components/completed-state"
+import { CancelMeetingDialog } from "../components/cancel-meeting-dialog"
+import { StatusTimeline } from "../components/status-timeline"
+import { ToolActivity } from "../components/tool-activity"
+import { MeetingParticipants } from "@/modules/participants/ui/components/meeting-participants"
+import { toast } from "sonner"
 
 interface Props {
     meetingId: string
@@ -26,6 +31,7 @@ export const MeetingIdView = ({ meetingId }: Props) => {
     const queryClient = useQueryClient()
     
     const [updateMeetingDialogOpen, setUpdateMeetingDialogOpen] = useState(false)
+    const [cancelMeetingDialogOpen, setCancelMeetingDialogOpen] = useState(false)
 
     const [RemoveConfirmation, confirmRemove] = useConfirm(
         "Are you sure?",
@@ -46,6 +52,20 @@ export const MeetingIdView = ({ meetingId }: Props) => {
         })
     )
 
+    const cancelMeeting = useMutation(
+        trpc.meetings.cancel.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(trpc.meetings.getMany.queryOptions({}))
+                await queryClient.invalidateQueries(trpc.meetings.getOne.queryOptions({id: meetingId}))
+                await queryClient.invalidateQueries(trpc.meetings.getStatusEvents.queryOptions({id: meetingId}))
+                setCancelMeetingDialogOpen(false)
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
     const handleRemoveMeeting = async () => {
         const ok = await confirmRemove()
 
@@ -63,6 +83,12 @@ export const MeetingIdView = ({ meetingId }: Props) => {
     return (
         <>
             <RemoveConfirmation />
+            <CancelMeetingDialog
+                open={cancelMeetingDialogOpen}
+                onOpenChange={setCancelMeetingDialogOpen}
+                onConfirm={(reason) => cancelMeeting.mutate({ id: meetingId, reason })}
+                isCancelling={cancelMeeting.isPending}
+            />
             <UpdateMeetingDialog
                 open={updateMeetingDialogOpen}
                 onOpenChange={setUpdateMeetingDialogOpen}
@@ -72,11 +98,15 @@ export const MeetingIdView = ({ meetingId }: Props) => {
                 <MeetingIdViewHeader
                     meetingId={meetingId}
                     meetingName={data.name}
+                    isScheduled={!!data.scheduledStartAt}
                     onEdit={() => setUpdateMeetingDialogOpen(true)}
                     onRemove={handleRemoveMeeting}
                 />
                 {isCancelled && 
-                    <CancelledState/>
+                    <CancelledState
+                        cancelledAt={data.cancelledAt}
+                        cancellationReason={data.cancellationReason}
+                    />
                 }
                 {isProcessing && 
                     <ProcessingState/>
@@ -85,8 +115,11 @@ export const MeetingIdView = ({ meetingId }: Props) => {
                 {isUpcoming && 
                     <UpcomingState
                         meetingId={meetingId}
-                        onCancelMeeting={() => {}}
-                        isCancelling={false}  
+                        scheduledStartAt={data.scheduledStartAt}
+                        scheduledDurationMinutes={data.scheduledDurationMinutes}
+                        timezone={data.timezone}
+                        onCancelMeeting={() => setCancelMeetingDialogOpen(true)}
+                        isCancelling={cancelMeeting.isPending}
                     /> 
                 }
                 {isActive && 
@@ -94,6 +127,14 @@ export const MeetingIdView = ({ meetingId }: Props) => {
                         meetingId={meetingId}
                     />
                 }
+                {(isUpcoming || isActive || isProcessing) &&
+                    <MeetingParticipants
+                        meetingId={meetingId}
+                        canManage={isUpcoming || isActive}
+                    />
+                }
+                <ToolActivity meetingId={meetingId} isLive={isActive} />
+                <StatusTimeline meetingId={meetingId} />
             </div>
         
         </>
@@ -0,0 +1,4 @@
+// Guests join Stream calls under this prefix so transcripts can resolve them back to participants
+export const GUEST_USER_ID_PREFIX = "guest_"
+
+export const getGuestUserId = (participantId: string) => `${GUEST_USER_ID_PREFIX}${participantId}`
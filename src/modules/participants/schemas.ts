@@ -0,0 +1,13 @@
+import {z} from "zod"
+
+export const participantsInviteSchema = z.object({
+    meetingId: z.string().min(1, {message: "Meeting is required"}),
+    email: z.string().trim().toLowerCase().pipe(z.email({message: "Enter a valid email"})),
+    // Defaults to the part of the email before the @
+    name: z.string().trim().max(100, {message: "Name is too long"}).optional(),
+})
+
+export const participantsGuestSchema = z.object({
+    meetingId: z.string().min(1, {message: "Meeting is required"}),
+    token: z.string().min(1, {message: "Token is required"}),
+})
@@ -0,0 +1,250 @@
+import {z} from "zod"
+import {and, asc, eq, getTableColumns, sql} from "drizzle-orm"
+import { db } from "@/db";
+import { meetingParticipants, meetings, user } from "@/db/schema";
+import {baseProcedure, createTRPCRouter, protectedProcedure} from "@/trpc/init"
+import { TRPCError } from "@trpc/server";
+import { streamVideo } from "@/lib/stream-video";
+import { generatedAvatarUri } from "@/lib/avatar";
+import { sendEmail } from "@/lib/email";
+import { createGuestToken, getGuestLink, verifyGuestToken } from "@/lib/guest-link";
+import { formatInTimeZone } from "@/lib/timezone";
+import { MeetingStatus } from "@/modules/meetings/types";
+import { participantsGuestSchema, participantsInviteSchema } from "../schemas";
+import { ParticipantStatus } from "../types";
+import { getGuestUserId } from "../constants";
+
+// Participants can only be added or let in before the call is over
+const JOINABLE_STATUSES = [MeetingStatus.Upcoming, MeetingStatus.Active] as string[]
+
+const getAppUrl = () => process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+
+const getOwnedMeeting = async (meetingId: string, userId: string) => {
+  const [existingMeeting] = await db
+    .select()
+    .from(meetings)
+    .where(and(eq(meetings.id, meetingId), eq(meetings.userId, userId)))
+
+  if (!existingMeeting) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Meeting not found' })
+  }
+
+  return existingMeeting
+}
+
+const getOwnedParticipant = async (participantId: string, userId: string) => {
+  const [existingParticipant] = await db
+    .select({
+      ...getTableColumns(meetingParticipants),
+      meetingStatus: meetings.status,
+    })
+    .from(meetingParticipants)
+    .innerJoin(meetings, eq(meetingParticipants.meetingId, meetings.id))
+    .where(
+      and(eq(meetingParticipants.id, participantId), eq(meetings.userId, userId))
+    )
+
+  if (!existingParticipant) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Participant not found' })
+  }
+
+  return existingParticipant
+}
+
+const getGuestParticipant = async ({ meetingId, token }: z.infer<typeof participantsGuestSchema>) => {
+  const payload = verifyGuestToken(token)
+
+  if (!payload || payload.meetingId !== meetingId) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invite link is invalid or has expired' })
+  }
+
+  const [existingParticipant] = await db
+    .select({
+      ...getTableColumns(meetingParticipants),
+      meetingName: meetings.name,
+      meetingStatus: meetings.status,
+    })
+    .from(meetingParticipants)
+    .innerJoin(meetings, eq(meetingParticipants.meetingId, meetings.id))
+    .where(
+      and(
+        eq(meetingParticipants.id, payload.participantId),
+        eq(meetingParticipants.meetingId, meetingId)
+      )
+    )
+
+  // Removing a participant revokes every link issued to them
+  if (!existingParticipant) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invite link is no longer valid' })
+  }
+
+  return existingParticipant
+}
+
+const createParticipantLink = (meetingId: string, participantId: string) =>
+  getGuestLink(getAppUrl(), meetingId, createGuestToken({ meetingId, participantId }))
+
+export const participantsRouter = createTRPCRouter({
+
+  getMany: protectedProcedure
+    .input(z.object({ meetingId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      await getOwnedMeeting(input.meetingId, ctx.auth.user.id)
+
+      const data = await db
+        .select({
+          ...getTableColumns(meetingParticipants),
+          image: user.image,
+        })
+        .from(meetingParticipants)
+        .leftJoin(user, eq(meetingParticipants.userId, user.id))
+        .where(eq(meetingParticipants.meetingId, input.meetingId))
+        .orderBy(asc(meetingParticipants.invitedAt))
+
+      return data.map((participant) => ({
+        ...participant,
+        image:
+          participant.image ??
+          generatedAvatarUri({ seed: participant.name, variant: "initials" }),
+      }))
+    }),
+
+  invite: protectedProcedure
+    .input(participantsInviteSchema)
+    .mutation(async ({ input, ctx }) => {
+      const existingMeeting = await getOwnedMeeting(input.meetingId, ctx.auth.user.id)
+
+      if (!JOINABLE_STATUSES.includes(existingMeeting.status)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Cannot invite participants to a ${existingMeeting.status} meeting` })
+      }
+
+      if (input.email === ctx.auth.user.email.toLowerCase()) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'You are already the host of this meeting' })
+      }
+
+      const [existingUser] = await db
+        .select({ id: user.id, name: user.name })
+        .from(user)
+        .where(eq(sql`lower(${user.email})`, input.email))
+
+      const [createdParticipant] = await db
+        .insert(meetingParticipants)
+        .values({
+          meetingId: input.meetingId,
+          email: input.email,
+          name: input.name || existingUser?.name || input.email.split("@")[0],
+          userId: existingUser?.id,
+        })
+        .onConflictDoNothing()
+        .returning()
+
+      if (!createdParticipant) {
+        throw new TRPCError({ code: 'CONFLICT', message: `${input.email} is already invited` })
+      }
+
+      const link = createParticipantLink(input.meetingId, createdParticipant.id)
+      const when = existingMeeting.scheduledStartAt
+        ? ` on ${formatInTimeZone(existingMeeting.scheduledStartAt, existingMeeting.timezone)}`
+        : ""
+
+      let emailSent = false
+      try {
+        emailSent = await sendEmail({
+          to: input.email,
+          subject: `${ctx.auth.user.name} invited you to "${existingMeeting.name}"`,
+          text: `${ctx.auth.user.name} invited you to join "${existingMeeting.name}"${when}.\n\nJoin the call: ${link}`,
+        })
+      } catch (error) {
+        // The invite stands; the host can still copy the link from the meeting page
+        console.warn('[Participants] Failed to send invite email:', error)
+      }
+
+      return { ...createdParticipant, link, emailSent }
+    }),
+
+  getLink: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const existingParticipant = await getOwnedParticipant(input.id, ctx.auth.user.id)
+
+      return { link: createParticipantLink(existingParticipant.meetingId, existingParticipant.id) }
+    }),
+
+  remove: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const existingParticipant = await getOwnedParticipant(input.id, ctx.auth.user.id)
+
+      const [removedParticipant] = await db
+        .delete(meetingParticipants)
+        .where(eq(meetingParticipants.id, existingParticipant.id))
+        .returning()
+
+      if (JOINABLE_STATUSES.includes(existingParticipant.meetingStatus)) {
+        try {
+          // Their Stream token outlives the invite, so keep them out of the call itself too
+          await streamVideo.video
+            .call("default", existingParticipant.meetingId)
+            .blockUser({ user_id: getGuestUserId(existingParticipant.id) })
+        } catch (error) {
+          console.warn('[Participants] Failed to block removed participant:', error)
+        }
+      }
+
+      return removedParticipant
+    }),
+
+  getGuestCall: baseProcedure
+    .input(participantsGuestSchema)
+    .query(async ({ input }) => {
+      const participant = await getGuestParticipant(input)
+
+      return {
+        meetingId: participant.meetingId,
+        meetingName: participant.meetingName,
+        status: participant.meetingStatus,
+        participant: {
+          id: getGuestUserId(participant.id),
+          name: participant.name,
+          image: generatedAvatarUri({ seed: participant.name, variant: "initials" }),
+        },
+      }
+    }),
+
+  generateGuestToken: baseProcedure
+    .input(participantsGuestSchema)
+    .mutation(async ({ input }) => {
+      const participant = await getGuestParticipant(input)
+
+      if (!JOINABLE_STATUSES.includes(participant.meetingStatus)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'This meeting can no longer be joined' })
+      }
+
+      const guestUserId = getGuestUserId(participant.id)
+
+      await streamVideo.upsertUsers([
+        {
+          id: guestUserId,
+          name: participant.name,
+          role: "user",
+          image: generatedAvatarUri({ seed: participant.name, variant: "initials" }),
+        }
+      ])
+
+      await db
+        .update(meetingParticipants)
+        .set({
+          status: ParticipantStatus.Joined,
+          joinedAt: sql`coalesce(${meetingParticipants.joinedAt}, now())`,
+        })
+        .where(eq(meetingParticipants.id, participant.id))
+
+      // Scoped to this call so a leaked guest token cannot reach other meetings
+      return streamVideo.generateCallToken({
+        user_id: guestUserId,
+        role: "user",
+        call_cids: [`default:${input.meetingId}`],
+        validity_in_seconds: 3600,
+      })
+    }),
+})
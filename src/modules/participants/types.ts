@@ -0,0 +1,11 @@
+import { inferRouterOutputs } from "@trpc/server";
+
+import type { AppRouter } from "@/trpc/routers/_app";
+
+export type ParticipantsGetMany = inferRouterOutputs<AppRouter>["participants"]["getMany"]
+export type ParticipantsGetGuestCall = inferRouterOutputs<AppRouter>["participants"]["getGuestCall"]
+
+export enum ParticipantStatus {
+    Invited = "invited",
+    Joined = "joined",
+}
@@ -0,0 +1,106 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { toast } from "sonner"
+import { UserPlusIcon } from "lucide-react"
+import z from "zod"
+
+import { useTRPC } from "@/trpc/client"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormMessage,
+} from "@/components/ui/form"
+import { participantsInviteSchema } from "../../schemas"
+
+const inviteFormSchema = participantsInviteSchema.omit({ meetingId: true })
+
+interface InviteParticipantFormProps {
+    meetingId: string
+}
+
+export const InviteParticipantForm = ({ meetingId }: InviteParticipantFormProps) => {
+    const trpc = useTRPC()
+    const queryClient = useQueryClient()
+
+    const form = useForm<z.infer<typeof inviteFormSchema>>({
+        resolver: zodResolver(inviteFormSchema),
+        defaultValues: {
+            email: "",
+            name: "",
+        },
+    })
+
+    const inviteParticipant = useMutation(
+        trpc.participants.invite.mutationOptions({
+            onSuccess: async (participant) => {
+                await queryClient.invalidateQueries(
+                    trpc.participants.getMany.queryOptions({ meetingId }),
+                )
+                form.reset()
+
+                if (participant.emailSent) {
+                    toast.success(`Invite sent to ${participant.email}`)
+                    return
+                }
+
+                // No email provider configured; hand the link to the host instead
+                try {
+                    await navigator.clipboard.writeText(participant.link)
+                    toast.success(`Invite link for ${participant.email} copied to clipboard`)
+                } catch {
+                    toast.success(`${participant.email} invited. Copy their link from the list`)
+                }
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
+    const onSubmit = (values: z.infer<typeof inviteFormSchema>) => {
+        inviteParticipant.mutate({ meetingId, ...values })
+    }
+
+    return (
+        <Form {...form}>
+            <form
+                className="flex flex-col gap-2 md:flex-row md:items-start"
+                onSubmit={form.handleSubmit(onSubmit)}
+            >
+                <FormField
+                    name="email"
+                    control={form.control}
+                    render={({ field }) => (
+                        <FormItem className="flex-1">
+                            <FormControl>
+                                <Input {...field} type="email" placeholder="name@example.com" />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    name="name"
+                    control={form.control}
+                    render={({ field }) => (
+                        <FormItem className="md:w-48">
+                            <FormControl>
+                                <Input {...field} placeholder="Name (optional)" />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <Button type="submit" disabled={inviteParticipant.isPending}>
+                    <UserPlusIcon />
+                    Invite
+                </Button>
+            </form>
+        </Form>
+    )
+}
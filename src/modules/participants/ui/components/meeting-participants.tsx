@@ -0,0 +1,130 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { LinkIcon, TrashIcon, UsersIcon } from "lucide-react"
+
+import { useTRPC } from "@/trpc/client"
+import { useConfirm } from "@/hooks/use-confirm"
+import { Avatar, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ParticipantStatus } from "../../types"
+import { InviteParticipantForm } from "./invite-participant-form"
+
+interface Props {
+    meetingId: string
+    // Invites and removals only make sense before the call is over
+    canManage: boolean
+}
+
+export const MeetingParticipants = ({ meetingId, canManage }: Props) => {
+    const trpc = useTRPC()
+    const queryClient = useQueryClient()
+
+    const [RemoveConfirmation, confirmRemove] = useConfirm(
+        "Remove participant?",
+        "Their invite link will stop working and they will be removed from the call"
+    )
+
+    const { data: participants } = useQuery(
+        trpc.participants.getMany.queryOptions({ meetingId })
+    )
+
+    const getLink = useMutation(
+        trpc.participants.getLink.mutationOptions({
+            onSuccess: async ({ link }) => {
+                try {
+                    await navigator.clipboard.writeText(link)
+                    toast.success("Invite link copied to clipboard")
+                } catch {
+                    toast.error("Could not copy the invite link")
+                }
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
+    const removeParticipant = useMutation(
+        trpc.participants.remove.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(
+                    trpc.participants.getMany.queryOptions({ meetingId }),
+                )
+            },
+            onError: (error) => {
+                toast.error(error.message)
+            },
+        })
+    )
+
+    const handleRemove = async (id: string) => {
+        const ok = await confirmRemove()
+
+        if (!ok) return
+
+        await removeParticipant.mutateAsync({ id })
+    }
+
+    if (!canManage && !participants?.length) return null
+
+    return (
+        <>
+            <RemoveConfirmation />
+            <div className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-4">
+                <div className="flex items-center gap-x-2">
+                    <UsersIcon className="size-4" />
+                    <h6 className="font-medium">Participants</h6>
+                </div>
+                {canManage && <InviteParticipantForm meetingId={meetingId} />}
+                {participants?.length ? (
+                    <ul className="flex flex-col divide-y">
+                        {participants.map((participant) => (
+                            <li key={participant.id} className="flex items-center gap-x-3 py-2">
+                                <Avatar className="size-8">
+                                    <AvatarImage src={participant.image} alt={participant.name} />
+                                </Avatar>
+                                <div className="flex flex-col flex-1 min-w-0">
+                                    <span className="text-sm font-medium truncate">{participant.name}</span>
+                                    <span className="text-xs text-muted-foreground truncate">{participant.email}</span>
+                                </div>
+                                <Badge variant="outline" className="capitalize">
+                                    {participant.status === ParticipantStatus.Joined && participant.joinedAt
+                                        ? `Joined ${format(participant.joinedAt, "PPp")}`
+                                        : participant.status}
+                                </Badge>
+                                {canManage && (
+                                    <>
+                                        <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            title="Copy invite link"
+                                            disabled={getLink.isPending}
+                                            onClick={() => getLink.mutate({ id: participant.id })}
+                                        >
+                                            <LinkIcon />
+                                        </Button>
+                                        <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            title="Remove participant"
+                                            disabled={removeParticipant.isPending}
+                                            onClick={() => handleRemove(participant.id)}
+                                        >
+                                            <TrashIcon />
+                                        </Button>
+                                    </>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        Invite people by email. They can join the call from their invite link without an account
+                    </p>
+                )}
+            </div>
+        </>
+    )
+}
@@ -2,7 +2,7 @@
 // ^-- to make sure we can mount the Provider from a server component
 import type { QueryClient } from '@tanstack/react-query'
 import { QueryClientProvider } from '@tanstack/react-query'
-import { createTRPCClient, httpBatchLink } from '@trpc/client'
+import { createTRPCClient, httpBatchLink, httpBatchStreamLink, splitLink } from '@trpc/client'
 import { createTRPCContext } from '@trpc/tanstack-react-query'
 import { useState } from 'react'
 import { makeQueryClient } from './query-client'
@@ -41,9 +41,17 @@ export function TRPCReactProvider(
   const [trpcClient] = useState(() =>
     createTRPCClient<AppRouter>({
       links: [
-        httpBatchLink({
-          // transformer: superjson, <-- if you use a data transformer
-          url: getUrl(),
+        // Procedures that yield (e.g. Ask AI answers) opt into streaming with
+        // `trpc: { context: { stream: true } }`
+        splitLink({
+          condition: (op) => op.context.stream === true,
+          true: httpBatchStreamLink({
+            url: getUrl(),
+          }),
+          false: httpBatchLink({
+            // transformer: superjson, <-- if you use a data transformer
+            url: getUrl(),
+          }),
         }),
       ],
     })
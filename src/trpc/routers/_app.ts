@@ -1,10 +1,16 @@
 import { agentsRouter } from '@/modules/agents/server/procedures'
 import { meetingsRouter } from '@/modules/meetings/server/procedures'
+import { chatRouter } from '@/modules/chat/server/procedures'
+import { participantsRouter } from '@/modules/participants/server/procedures'
+import { knowledgeRouter } from '@/modules/knowledge/server/procedures'
 
 import { createTRPCRouter } from '../init'
 export const appRouter = createTRPCRouter({
     agents: agentsRouter,
-    meetings : meetingsRouter
+    meetings : meetingsRouter,
+    chat: chatRouter,
+    participants: participantsRouter,
+    knowledge: knowledgeRouter,
 })
 // export type definition of API
 export type AppRouter = typeof appRouter